@@ -0,0 +1,232 @@
+#!/usr/bin/env node
+import fs from "fs";
+import { plan, planAlternatives, listTradeOptions, Truthsayer, NavigationError, TradeRanking } from "../dist/index.js";
+
+/**
+ * spacing-guild CLI
+ *
+ * Plans routes from a JSON file with the locations and the ship ({ locations, ship }, like mock_data/data.json).
+ * Prints a table for operators, or JSON for scripts (--json).
+ *
+ * USAGE
+ *  - spacing-guild navigate --data data.json --range 50 --fuel-margin 10
+ *  - spacing-guild navigate --data data.json --alternatives 3
+ *  - spacing-guild trades --data data.json --top 10 --json
+ */
+const USAGE = `Usage: spacing-guild <command> --data <file> [options]
+
+Commands
+  navigate    Plots the most profitable trade route from the ship's location
+  trades      Lists the profitable trades from the ship's location, best first
+
+Options
+  --data <file>            JSON file with the locations and the ship ({ locations, ship })
+  --json                   Prints JSON instead of a table
+
+navigate
+  --range <number>         Limits the destinations to this distance
+  --fuel-margin <number>   Extra FUEL in % (default 5)
+  --rank-by <metric>       ${Object.values(TradeRanking).join(" or ")}
+  --credits <number>       Credits available for the FUEL and the goods
+  --reserve <number>       Credits to leave unspent
+  --max-market-age <sec>   Leaves out markets observed longer ago than this
+  --alternatives <number>  Lists this many routes to distinct destinations, best first
+  --price-impact <share>   Share of the price a market moves when its whole stock is traded (ex. 0.1)
+  --max-refuel-stops <n>   Refuel stops allowed on the way to a destination (default 2, 0 never stops)
+  --fuel-reserve <number>  FUEL to have left in the hold at arrival
+  --deny-goods <list>      Comma separated goods not to buy
+  --deny-locations <list>  Comma separated locations not to fly to or through
+  --destination <symbol>   Location the route has to end at
+
+trades
+  --top <number>           Number of trades to list (default all)`;
+
+const NUMBER_OPTIONS = ["range", "fuel-margin", "credits", "reserve", "max-market-age", "alternatives", "price-impact", "max-refuel-stops", "fuel-reserve", "top"];
+
+/**
+ * @param {string[]} argv
+ * @returns {{ command: string, options: object }}
+ */
+function parseArgs(argv) {
+    const options = {};
+    let command;
+
+    for (let i = 0; i < argv.length; i++) {
+        if (!argv[i].startsWith("--")) {
+            if (command) {
+                throw new Error(`Unexpected argument "${argv[i]}"`);
+            }
+
+            command = argv[i];
+            continue;
+        }
+
+        const name = argv[i].slice(2);
+
+        if (name === "json" || name === "help") {
+            options[name] = true;
+            continue;
+        }
+
+        const value = argv[++i];
+        if (value === undefined || value.startsWith("--")) {
+            throw new Error(`Missing value for --${name}`);
+        }
+
+        if (NUMBER_OPTIONS.indexOf(name) !== -1 && !isFinite(Number(value))) {
+            throw new Error(`--${name} expects a number, got "${value}"`);
+        }
+
+        options[name] = NUMBER_OPTIONS.indexOf(name) !== -1 ? Number(value) : value;
+    }
+
+    return { command, options };
+}
+
+/**
+ * @param {string} file
+ * @returns {import("../dist/index.js").INavigationSnapshot}
+ */
+function readSnapshot(file) {
+    if (!file) {
+        throw new Error("Missing --data <file>");
+    }
+
+    const data = JSON.parse(fs.readFileSync(file, "utf8"));
+    return Truthsayer.parseSnapshot(data.locations, data.ship);
+}
+
+/**
+ * Pads every column to its widest cell.
+ *
+ * @param {string[]} headers
+ * @param {any[][]} rows
+ * @returns {string}
+ */
+function table(headers, rows) {
+    const cells = [headers].concat(rows).map(row => row.map(cell => typeof cell === "number" && !Number.isInteger(cell) ? cell.toFixed(2) : String(cell)));
+    const widths = headers.map((header, i) => Math.max(...cells.map(row => row[i].length)));
+
+    return cells.map(row => row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd()).join("\n");
+}
+
+function navigate(snapshot, options) {
+    const params = {
+        range: options.range || 0,
+        fuelMargin: options["fuel-margin"] === undefined ? 5 : options["fuel-margin"],
+        rankBy: options["rank-by"],
+        credits: options.credits,
+        reserve: options.reserve,
+        maxMarketAge: options["max-market-age"],
+        priceImpact: options["price-impact"] === undefined ? undefined : { impact: options["price-impact"] },
+        maxRefuelStops: options["max-refuel-stops"],
+        fuelReserve: options["fuel-reserve"],
+        deniedGoods: options["deny-goods"] === undefined ? undefined : options["deny-goods"].split(","),
+        deniedLocations: options["deny-locations"] === undefined ? undefined : options["deny-locations"].split(","),
+        destination: options.destination
+    };
+
+    if (params.rankBy && Object.values(TradeRanking).indexOf(params.rankBy) === -1) {
+        throw new Error(`--rank-by expects ${Object.values(TradeRanking).join(" or ")}, got "${params.rankBy}"`);
+    }
+
+    if (options.alternatives) {
+        return alternatives(snapshot, params, options);
+    }
+
+    const { route, diagnostics } = plan(snapshot, params);
+
+    if (options.json) {
+        console.log(JSON.stringify({ route: route || null, diagnostics }, null, 2));
+    } else if (route) {
+        console.log(table(["", ""], [
+            ["Destination", route.destination],
+            ["Distance", route.distance],
+            ["Flight time", `${route.flightTime} s (arrival ${route.arrival})`],
+            ["Spend", route.spend],
+            ["FUEL cost", route.fuelCost],
+            ["Net profit", route.netProfit],
+            ["ROI", route.roi]
+        ]));
+        console.log("\nBuy\n" + table(["GOOD", "QUANTITY", "VOLUME", "PURPOSE"], route.cargo.map(c => [c.good, c.quantity, c.totalVolume, c.purpose || ""])));
+
+        if (route.sales.length) {
+            console.log("\nSell\n" + table(["GOOD", "QUANTITY", "AT", "REVENUE"], route.sales.map(s => [s.good, s.quantity, s.location, s.revenue])));
+        }
+
+        if (route.refuelStops.length) {
+            console.log("\nRefuel stops\n" + table(["AT", "FUEL", "COST", "PURPOSE"], route.refuelStops.map(s => [s.location, s.fuel, s.cost, s.purpose])));
+        }
+
+        console.log("\nWaypoints\n" + table(["FROM", "TO", "DISTANCE", "FUEL"], route.waypoints.map(w => [w.from, w.to, w.distance, w.fuel])));
+    } else {
+        console.error(`No route found (${diagnostics.error})`);
+        console.error(table(["DESTINATION", "GOOD", "SCORE", "REJECTION"], diagnostics.candidates.map(c => [c.destination, c.good, c.score, c.rejection || ""])));
+    }
+
+    return route ? 0 : 2;
+}
+
+function alternatives(snapshot, params, options) {
+    const { routes, diagnostics } = planAlternatives(snapshot, { ...params, limit: options.alternatives });
+
+    if (options.json) {
+        console.log(JSON.stringify({ routes, diagnostics }, null, 2));
+    } else if (routes.length) {
+        console.log(table(
+            ["#", "DESTINATION", "DISTANCE", "FLIGHT TIME", "SPEND", "NET PROFIT", "ROI", "CARGO"],
+            routes.map((r, i) => [i + 1, r.destination, r.distance, r.flightTime, r.spend, r.netProfit, r.roi, r.cargo.map(c => `${c.good} ${c.quantity}`).join(", ")])
+        ));
+    } else {
+        console.error(`No route found (${diagnostics.error})`);
+        console.error(table(["DESTINATION", "GOOD", "SCORE", "REJECTION"], diagnostics.candidates.map(c => [c.destination, c.good, c.score, c.rejection || ""])));
+    }
+
+    return routes.length ? 0 : 2;
+}
+
+function trades(snapshot, options) {
+    const list = listTradeOptions(snapshot).slice(0, options.top || undefined);
+
+    if (options.json) {
+        console.log(JSON.stringify(list.map(option => ({
+            destination: option.trade.destination.symbol,
+            good: option.trade.localGood.symbol,
+            distance: option.distance,
+            cost: option.cost,
+            profit: option.profit,
+            profitPerDU: option.profitPerDU,
+            flightTime: option.flightTime,
+            profitPerSecond: option.profitPerSecond,
+            dataAge: option.dataAge,
+            score: option.score
+        })), null, 2));
+    } else {
+        console.log(table(
+            ["DESTINATION", "GOOD", "DISTANCE", "COST", "PROFIT", "PROFIT/DU", "PROFIT/S", "SCORE"],
+            list.map(o => [o.trade.destination.symbol, o.trade.localGood.symbol, o.distance, o.cost, o.profit, o.profitPerDU, o.profitPerSecond, o.score])
+        ));
+    }
+
+    return 0;
+}
+
+try {
+    const { command, options } = parseArgs(process.argv.slice(2));
+
+    if (!command || options.help) {
+        console.log(USAGE);
+        process.exit(command || options.help ? 0 : 1);
+    }
+
+    const commands = { navigate, trades };
+    if (!commands[command]) {
+        throw new Error(`Unknown command "${command}"`);
+    }
+
+    process.exit(commands[command](readSnapshot(options.data), options));
+} catch (error) {
+    // Set DEBUG to see where unexpected errors come from
+    console.error(process.env.DEBUG && !(error instanceof NavigationError) ? error.stack : `spacing-guild: ${error.message}`);
+    process.exit(1);
+}
\ No newline at end of file
@@ -0,0 +1,215 @@
+import { ILocation, IShip, IGood, INavigationSnapshot, IDistransOptions } from './interfaces/index.js';
+import { Truthsayer } from './truthsayer.js';
+import { ApiError } from './errors/index.js';
+
+/**
+ * A small client for the SpaceTraders API.
+ * 
+ * Fetches the ship, the locations of a system and the marketplaces, and maps them
+ * into the IShip, ILocation and IGood objects the navigator works with (see Truthsayer).
+ * 
+ * - Every request is sent with the token as a Bearer token.
+ * 
+ * - Rate limited requests (HTTP 429) are sent again after the Retry-After header's seconds.
+ *      Server errors (HTTP 5xx) and network failures are sent again after a growing delay.
+ *      Once sent again `retries` times (`retries` + 1 requests in all), on any other error,
+ *      or on a response that is not JSON, an ApiError is thrown.
+ * 
+ * USAGE
+ *  - const client: Distrans = new Distrans({ token });
+ *  - const snapshot: INavigationSnapshot = await client.getSnapshot(shipId, "OE");
+ *  - const edric: Navigator = new Navigator(snapshot.locations, snapshot.ship);
+ * 
+ * NOTES
+ *  - Uses the global fetch (Node.js 18+ and browsers). Any other fetch implementation can be given in the options.
+ *  - tests/mock_server.js serves mock_data/data.json on the same routes, to run without the network.
+ * 
+ * Named after the distrans from Frank Herbert's "Dune", the devices that carry messages.
+ * https://dune.fandom.com/wiki/Distrans
+ * https://en.wikipedia.org/wiki/Dune_(novel)
+ */
+export class Distrans {
+    public static readonly BASE_URL: string = "https://api.spacetraders.io";
+
+    private _options: IDistransOptions;
+
+    get options(): IDistransOptions {
+        return this._options;
+    }
+
+    /**
+     * 
+     * @param options IDistransOptions  { token, baseUrl, retries: Default 3, retryDelay: Default 1000 ms, fetch }
+     */
+    constructor(options: IDistransOptions = {}) {
+        this._options = {
+            baseUrl: Distrans.BASE_URL,
+            retries: 3,
+            retryDelay: 1000,
+            ...options
+        };
+    }
+
+    /**
+     * 
+     * @param shipId string
+     * @returns Promise<IShip>
+     */
+    public async getShip(shipId: string): Promise<IShip> {
+        return Truthsayer.parseShip(await this.request(`/my/ships/${encodeURIComponent(shipId)}`));
+    }
+
+    /**
+     * The locations come without marketplaces. See getMarketplace.
+     * 
+     * @param system string     The system's symbol (ex. OE)
+     * @returns Promise<ILocation[]>
+     */
+    public async getLocations(system: string): Promise<ILocation[]> {
+        return Truthsayer.parseLocations(await this.request(`/systems/${encodeURIComponent(system)}/locations`));
+    }
+
+    /**
+     * The API only shows the marketplaces of locations where one of the player's ships is.
+     * 
+     * @param symbol string     The location's symbol
+     * @returns Promise<IGood[]>
+     */
+    public async getMarketplace(symbol: string): Promise<IGood[]> {
+        return Truthsayer.parseMarketplace(await this.request(`/locations/${encodeURIComponent(symbol)}/marketplace`));
+    }
+
+    /**
+     * Fetches the ship, the locations of the system and the marketplace of the ship's location.
+     * The marketplace is stamped with the time it was fetched (observedAt).
+     * 
+     * The other marketplaces can only be observed by other ships. Merge them into a navigator
+     * with updateMarketplace as they come.
+     * 
+     * @param shipId string
+     * @param system string     The system's symbol (ex. OE)
+     * @returns Promise<INavigationSnapshot>
+     */
+    public async getSnapshot(shipId: string, system: string): Promise<INavigationSnapshot> {
+        const ship: IShip = await this.getShip(shipId);
+        const locations: ILocation[] = await this.getLocations(system);
+        const marketplace: IGood[] = await this.getMarketplace(ship.location);
+        const observedAt: string = new Date().toISOString();
+
+        return {
+            locations: locations.map((location: ILocation) => location.symbol === ship.location ? { ...location, marketplace, observedAt } : location),
+            ship
+        };
+    }
+
+    /**
+     * Sends a GET request to the API, retrying rate limited and failed requests.
+     * 
+     * @param path string
+     * @returns Promise<any>    The response's JSON
+     */
+    private async request(path: string): Promise<any> {
+        const fetcher: (url: string, init?: RequestInit) => Promise<Response> = this._options.fetch || (typeof fetch !== "undefined" ? fetch : null);
+
+        if (!fetcher) {
+            throw new ApiError(0, "No fetch implementation found. Pass one in the options");
+        }
+        const headers: { [name: string]: string } = { "Accept": "application/json" };
+
+        if (this._options.token) {
+            headers["Authorization"] = `Bearer ${this._options.token}`;
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            let response: Response;
+            let retryable: boolean = attempt < this._options.retries;
+
+            try {
+                response = await fetcher(`${this._options.baseUrl}${path}`, { method: "GET", headers });
+            } catch (error) {
+                if (!retryable) {
+                    throw new ApiError(0, `The SpaceTraders API could not be reached: ${error && error.message}`);
+                }
+
+                await Distrans.wait(Distrans.getRetryDelay(this._options.retryDelay, attempt));
+                continue;
+            }
+
+            if (response.ok) {
+                return Distrans.getBody(response);
+            }
+
+            // Rate limited. Wait as long as the API asks to
+            if (response.status === 429 && retryable) {
+                await Distrans.wait(Distrans.getRateLimitDelay(response.headers.get("Retry-After"), this._options.retryDelay));
+                continue;
+            }
+
+            if (response.status >= 500 && retryable) {
+                await Distrans.wait(Distrans.getRetryDelay(this._options.retryDelay, attempt));
+                continue;
+            }
+
+            throw new ApiError(response.status, await Distrans.getErrorMessage(response));
+        }
+    }
+
+    /**
+     * 
+     * @param response Response
+     * @returns Promise<any>    The response's JSON. An ApiError is thrown if the body is not JSON
+     */
+    private static async getBody(response: Response): Promise<any> {
+        try {
+            return await response.json();
+        } catch (error) {
+            throw new ApiError(response.status, `The SpaceTraders API sent an invalid response: ${error && error.message}`);
+        }
+    }
+
+    /**
+     * 
+     * @param response Response
+     * @returns Promise<string>     The API's error message. Undefined if the response has none
+     */
+    private static async getErrorMessage(response: Response): Promise<string> {
+        try {
+            const body: any = await response.json();
+            return body && body.error && body.error.message || undefined;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * The delay doubles on every attempt.
+     * 
+     * @param delay number      Milliseconds
+     * @param attempt number    The attempts made so far, starting from 0
+     * @returns number  Milliseconds
+     */
+    private static getRetryDelay(delay: number, attempt: number): number {
+        return delay * Math.pow(2, attempt);
+    }
+
+    /**
+     * 
+     * @param retryAfter string     The Retry-After header, in seconds
+     * @param delay number          Milliseconds. Used if the header is missing or not a number
+     * @returns number  Milliseconds
+     */
+    private static getRateLimitDelay(retryAfter: string, delay: number): number {
+        const seconds: number = retryAfter === null || retryAfter === undefined || retryAfter === "" ? NaN : Number(retryAfter);
+
+        return isFinite(seconds) && seconds >= 0 ? seconds * 1000 : delay;
+    }
+
+    /**
+     * 
+     * @param ms number
+     * @returns Promise<void>
+     */
+    private static wait(ms: number): Promise<void> {
+        return new Promise((resolve: () => void) => setTimeout(resolve, ms));
+    }
+}
\ No newline at end of file
@@ -1,5 +1,58 @@
 export enum ShipClass {
-    HM_MK_III = "HK-MK-III",
-    GR_MK_III = "HK-MK-III",
-    GR_MK_II = "HK-MK-III",
+    JW_MK_I = "JW-MK-I",
+    GR_MK_I = "GR-MK-I",
+    GR_MK_II = "GR-MK-II",
+    GR_MK_III = "GR-MK-III",
+    EM_MK_I = "EM-MK-I",
+    HM_MK_I = "HM-MK-I",
+    HM_MK_III = "HM-MK-III",
 }
+
+export enum TradeRanking {
+    PROFIT_PER_DU = "profitPerDU",
+    PROFIT_PER_SECOND = "profitPerSecond",
+}
+
+export enum StaleMarketPolicy {
+    EXCLUDE = "exclude",
+    DOWN_WEIGHT = "downWeight",
+}
+
+export enum FuelPurpose {
+    TRIP = "TRIP",
+    RESERVE = "RESERVE",
+    TRADE = "TRADE",
+}
+
+export enum SimulationStop {
+    END_OF_HISTORY = "END_OF_HISTORY",
+    MAX_LEGS = "MAX_LEGS",
+    NO_ROUTE = "NO_ROUTE",
+}
+
+export enum NavigationErrorCode {
+    NO_MARKET = "NO_MARKET",
+    NO_PROFITABLE_TRADES = "NO_PROFITABLE_TRADES",
+    OUT_OF_RANGE = "OUT_OF_RANGE",
+    STALE_MARKETS = "STALE_MARKETS",
+    CANNOT_FUEL = "CANNOT_FUEL",
+    INSUFFICIENT_CREDITS = "INSUFFICIENT_CREDITS",
+    CONSTRAINED = "CONSTRAINED",
+    UNKNOWN_SHIP_TYPE = "UNKNOWN_SHIP_TYPE",
+    INVALID_PAYLOAD = "INVALID_PAYLOAD",
+    API_ERROR = "API_ERROR",
+}
+
+export enum RejectionReason {
+    OUT_OF_RANGE = "OUT_OF_RANGE",
+    STALE_MARKET = "STALE_MARKET",
+    NOT_ENOUGH_MARKET_FUEL = "NOT_ENOUGH_MARKET_FUEL",
+    NOT_ENOUGH_SPACE_FOR_FUEL = "NOT_ENOUGH_SPACE_FOR_FUEL",
+    CANNOT_AFFORD_FUEL = "CANNOT_AFFORD_FUEL",
+    OTHER_DESTINATION = "OTHER_DESTINATION",
+    NOT_LOADED = "NOT_LOADED",
+    DENIED_GOOD = "DENIED_GOOD",
+    DENIED_LOCATION = "DENIED_LOCATION",
+    NOT_REQUIRED_DESTINATION = "NOT_REQUIRED_DESTINATION",
+    NOT_PROFITABLE = "NOT_PROFITABLE",
+}
\ No newline at end of file
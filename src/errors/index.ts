@@ -0,0 +1,94 @@
+import { NavigationErrorCode } from '../enums/index.js';
+import { INavigationDiagnostics, IValidationIssue } from '../interfaces/index.js';
+
+export class NavigationError extends Error {
+    public readonly code: NavigationErrorCode;
+    public readonly diagnostics: INavigationDiagnostics;
+
+    constructor(code: NavigationErrorCode, message: string, diagnostics: INavigationDiagnostics = null) {
+        super(message);
+
+        // Keeps instanceof working when compiled to ES5
+        Object.setPrototypeOf(this, new.target.prototype);
+
+        this.name = "NavigationError";
+        this.code = code;
+        this.diagnostics = diagnostics;
+    }
+}
+
+export class NoMarketError extends NavigationError {
+    constructor(message: string = "The ship's location has no marketplace", diagnostics: INavigationDiagnostics = null) {
+        super(NavigationErrorCode.NO_MARKET, message, diagnostics);
+        this.name = "NoMarketError";
+    }
+}
+
+export class NoProfitableTradesError extends NavigationError {
+    constructor(message: string = "No profitable trades found from this ship's position", diagnostics: INavigationDiagnostics = null) {
+        super(NavigationErrorCode.NO_PROFITABLE_TRADES, message, diagnostics);
+        this.name = "NoProfitableTradesError";
+    }
+}
+
+export class OutOfRangeError extends NavigationError {
+    constructor(message: string = "No profitable trades found in the specified range", diagnostics: INavigationDiagnostics = null) {
+        super(NavigationErrorCode.OUT_OF_RANGE, message, diagnostics);
+        this.name = "OutOfRangeError";
+    }
+}
+
+export class StaleMarketError extends NavigationError {
+    constructor(message: string = "No profitable trades found with recent enough market data", diagnostics: INavigationDiagnostics = null) {
+        super(NavigationErrorCode.STALE_MARKETS, message, diagnostics);
+        this.name = "StaleMarketError";
+    }
+}
+
+export class ConstraintError extends NavigationError {
+    constructor(message: string = "No profitable trades found within the route constraints", diagnostics: INavigationDiagnostics = null) {
+        super(NavigationErrorCode.CONSTRAINED, message, diagnostics);
+        this.name = "ConstraintError";
+    }
+}
+
+export class CannotFuelError extends NavigationError {
+    constructor(message: string = "Not able to fuel a profitable trip", diagnostics: INavigationDiagnostics = null) {
+        super(NavigationErrorCode.CANNOT_FUEL, message, diagnostics);
+        this.name = "CannotFuelError";
+    }
+}
+
+export class InsufficientCreditsError extends NavigationError {
+    constructor(message: string = "Not enough credits to fuel a profitable trip", diagnostics: INavigationDiagnostics = null) {
+        super(NavigationErrorCode.INSUFFICIENT_CREDITS, message, diagnostics);
+        this.name = "InsufficientCreditsError";
+    }
+}
+
+export class UnknownShipTypeError extends NavigationError {
+    constructor(type: string) {
+        super(NavigationErrorCode.UNKNOWN_SHIP_TYPE, `Unknown ship type "${type}". Register a profile for it or set a fallback profile`);
+        this.name = "UnknownShipTypeError";
+    }
+}
+
+export class ValidationError extends NavigationError {
+    public readonly issues: IValidationIssue[];
+
+    constructor(issues: IValidationIssue[]) {
+        super(NavigationErrorCode.INVALID_PAYLOAD, `Invalid payload. ${issues.map((issue: IValidationIssue) => `${issue.path}: ${issue.message}`).join("; ")}`);
+        this.name = "ValidationError";
+        this.issues = issues;
+    }
+}
+
+export class ApiError extends NavigationError {
+    public readonly status: number;
+
+    constructor(status: number, message: string = "The SpaceTraders API request failed") {
+        super(NavigationErrorCode.API_ERROR, status ? `${message} (HTTP ${status})` : message);
+        this.name = "ApiError";
+        this.status = status;
+    }
+}
\ No newline at end of file
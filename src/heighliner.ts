@@ -0,0 +1,209 @@
+import { ILocation, IShip, IGood, ICargo, ITradeScorer, IFleetParameters, IFleetPlan, IFleetAssignment, IPlanResult, INavigationParameters, ITradeRoute, IRefuelStop } from './interfaces/index.js';
+import { Mentat } from './mentat.js';
+import { ProfitPerDistanceScorer } from './scorers/index.js';
+import { plan } from './planner.js';
+
+/**
+ * This class assigns trades to a fleet of ships jointly.
+ * 
+ * Navigators plan for a single ship. Ships in the same spot would all pick the same best trade
+ * and count on the same available quantities. The heighliner plans every ship against
+ * the marketplaces as they are left by the ships already assigned.
+ * 
+ * - On every round, it plans a route for each ship still waiting for one
+ *      and assigns the route with the most net profit.
+ * 
+ * - The goods and the FUEL bought by the assigned ship are taken out of the available
+ *      quantities of its marketplace, so the next ships can not count on them.
+ * 
+ * - If credits are given, they are the fleet's. The spend of every assigned route
+ *      is taken out of them before planning the next ships.
+ * 
+ * - Ships are spread across destinations. A ship only heads to a destination already
+ *      assigned to another ship if it has no other profitable trade.
+ * 
+ * USAGE
+ *  - const guild: Heighliner = new Heighliner(locations, ships);
+ *  - const fleetPlan: IFleetPlan = guild.navigate({ fuelMargin: 10 }); // see navigate method for arguments
+ * 
+ * IMPORTANT
+ *  - Just like the Navigator, this class should not contain any calculations at all.
+ *      ALL calculations should be handled by the Mentat.
+ * 
+ * NOTES
+ *  - The assignment is greedy. It is not guaranteed to be the best possible split of the trades,
+ *      but no ship is ever given a trade that the fleet has already used up.
+ * 
+ * Named after the Spacing Guild's heighliners from Frank Herbert's "Dune", that carry whole fleets.
+ * https://dune.fandom.com/wiki/Heighliner
+ * https://en.wikipedia.org/wiki/Dune_(novel)
+ */
+export class Heighliner {
+    private _locations: ILocation[];
+    private _ships: IShip[];
+    private _scorer: ITradeScorer;
+
+    get locations(): ILocation[] {
+        return this._locations;
+    }
+
+    get ships(): IShip[] {
+        return this._ships;
+    }
+
+    get scorer(): ITradeScorer {
+        return this._scorer;
+    }
+
+    /**
+     * 
+     * @param locations ILocation[]
+     * @param ships IShip[]
+     * @param scorer ITradeScorer Default ProfitPerDistanceScorer. Ranks the trade options.
+     */
+    constructor(locations: ILocation[], ships: IShip[], scorer: ITradeScorer = ProfitPerDistanceScorer) {
+        this._scorer = scorer;
+        this.updateLocationsData(locations);
+        this.updateShipsData(ships);
+    }
+
+    /**
+     * 
+     * @param locations ILocation[]
+     */
+    public updateLocationsData(locations: ILocation[]): void {
+        this._locations = locations;
+    }
+
+    /**
+     * 
+     * @param ships IShip[]
+     */
+    public updateShipsData(ships: IShip[]): void {
+        this._ships = ships;
+    }
+
+    /**
+     * Plots a trade route for every ship of the fleet.
+     * 
+     * PARAMETERS
+     *  - spread: Boolean. Default true
+     *      Sends the ships to different destinations when possible.
+     * 
+     *  - credits: Number. Default none
+     *      The credits of the whole fleet. Every assigned route spends from them.
+     * 
+     *  - range, fuelMargin, rankBy, scorer, reserve, greedyCargo, maxMarketAge, staleMarkets, departure,
+     *      priceImpact, maxRefuelStops, fuelReserve, fuelStockpile and the constraints work exactly as in plan(), for every ship.
+     * 
+     * The locations and the ships given to the heighliner are not modified.
+     * 
+     * @param params IFleetParameters
+     * @returns IFleetPlan     { assignments: IFleetAssignment[], profit: number } One assignment per ship, in the order of the ships
+     */
+    public navigate(params: IFleetParameters = { range: 0, fuelMargin: 5 }): IFleetPlan {
+        const assignments: IFleetAssignment[] = [];
+        const destinations: string[] = [];
+        let locations: ILocation[] = this._locations;
+        let credits: number = params.credits;
+        let pending: number[] = this._ships.map((ship: IShip, i: number) => i);
+
+        while (pending.length) {
+            let best: number = null;
+            let results: IPlanResult[] = [];
+
+            // Plan every pending ship against the marketplaces left by the assigned ones
+            for (let i = 0; i < pending.length; i++) {
+                let ship: IShip = this._ships[pending[i]];
+                let result: IPlanResult = this.planShip(locations, ship, { ...params, credits }, params.spread === false ? [] : destinations);
+
+                results[pending[i]] = result;
+
+                if (result.route && (best === null || result.route.netProfit > results[best].route.netProfit)) {
+                    best = pending[i];
+                }
+            }
+
+            // None of the remaining ships can trade
+            if (best === null) {
+                pending.forEach((i: number) => {
+                    assignments[i] = { ship: this._ships[i].id, route: undefined, diagnostics: results[i].diagnostics };
+                });
+                break;
+            }
+
+            let ship: IShip = this._ships[best];
+            let route: ITradeRoute = results[best].route;
+
+            assignments[best] = { ship: ship.id, route, diagnostics: results[best].diagnostics };
+            destinations.push(route.destination);
+            locations = this.depleteMarketplace(locations, ship.location, route.cargo);
+            // The FUEL of the refuel stops is used up too
+            locations = route.refuelStops.reduce((l: ILocation[], stop: IRefuelStop) => this.depleteMarketplace(l, stop.location, [{ good: "FUEL", quantity: stop.fuel, totalVolume: 0 }]), locations);
+            credits = credits === undefined ? undefined : Mentat.calculateRemainingCredits(credits, route.spend);
+            pending = pending.filter((i: number) => i !== best);
+        }
+
+        return {
+            assignments,
+            profit: Mentat.calculateFleetProfit(assignments.map((assignment: IFleetAssignment) => assignment.route))
+        };
+    }
+
+    /**
+     * Plans the ship's route away from the taken destinations.
+     * Falls back to all destinations if there is no profitable trade to the others.
+     * 
+     * @param locations ILocation[]
+     * @param ship IShip
+     * @param params INavigationParameters
+     * @param destinations string[]     The destinations already assigned to other ships
+     * @returns IPlanResult
+     */
+    private planShip(locations: ILocation[], ship: IShip, params: INavigationParameters, destinations: string[]): IPlanResult {
+        if (destinations.length) {
+            const untaken: ILocation[] = locations.map((location: ILocation) => {
+                if (location.symbol === ship.location || destinations.indexOf(location.symbol) === -1) {
+                    return location;
+                }
+
+                // Without a marketplace, the location can still be passed through
+                return { ...location, marketplace: [] };
+            });
+            const result: IPlanResult = plan({ locations: untaken, ship, scorer: this._scorer }, params);
+
+            if (result.route) {
+                return result;
+            }
+        }
+
+        return plan({ locations, ship, scorer: this._scorer }, params);
+    }
+
+    /**
+     * Takes the bought cargo out of the available quantities of the location's marketplace.
+     * The given locations are not modified.
+     * 
+     * @param locations ILocation[]
+     * @param symbol string     The location the cargo was bought from
+     * @param cargo ICargo[]
+     * @returns ILocation[]
+     */
+    private depleteMarketplace(locations: ILocation[], symbol: string, cargo: ICargo[]): ILocation[] {
+        return locations.map((location: ILocation) => {
+            if (location.symbol !== symbol || !location.marketplace) {
+                return location;
+            }
+
+            let marketplace: IGood[] = location.marketplace;
+            for (let i = 0; i < cargo.length; i++) {
+                marketplace = marketplace.map((good: IGood) => good.symbol !== cargo[i].good ? good : {
+                    ...good,
+                    quantityAvailable: Mentat.calculateRemainingQuantity(good.quantityAvailable, cargo[i].quantity)
+                });
+            }
+
+            return { ...location, marketplace };
+        });
+    }
+}
\ No newline at end of file
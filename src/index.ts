@@ -1,4 +1,12 @@
 export * from './navigator.js';
+export * from './planner.js';
+export * from './heighliner.js';
+export * from './prescience.js';
 export * from './mentat.js';
+export * from './ixian.js';
+export * from './truthsayer.js';
+export * from './distrans.js';
+export * from './scorers/index.js';
+export * from './errors/index.js';
 export * from './enums/index.js';
 export * from './interfaces/index.js';
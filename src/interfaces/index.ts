@@ -1,3 +1,5 @@
+import { TradeRanking, NavigationErrorCode, RejectionReason, StaleMarketPolicy, SimulationStop, FuelPurpose } from '../enums/index.js';
+
 export interface IGood {
     quantityAvailable: number;
     volumePerUnit: number;
@@ -14,13 +16,29 @@ export interface ILocation {
     name: string;
     x: number;
     y: number;
+    system?: string;
+    gates?: IWarpGate[];
     marketplace?: IGood[];
+    observedAt?: string;
+}
+
+export interface IWarpGate {
+    destination: string;
+    fuel?: number;
+}
+
+export interface IRouteSegment {
+    from: string;
+    to: string;
+    distance: number;
+    fuel: number;
 }
 
 export interface ICargo {
     good: string;
     quantity: number;
     totalVolume: number;
+    purpose?: FuelPurpose;
 }
 
 export interface IShip {
@@ -39,9 +57,53 @@ export interface IShip {
     weapons: number;
 }
 
+export interface IShipProfile {
+    type: string;
+    fuelMultiplier: number;
+    planetPenalty: number;
+    fuelVolume: number;
+    speed: number;
+}
+
 export interface ITradeRoute {
     destination: string;
     cargo: ICargo[];
+    sales: ISale[];
+    waypoints: IRouteSegment[];
+    refuelStops: IRefuelStop[];
+    flightTime: number;
+    arrival: string;
+    spend: number;
+    distance: number;
+    fuelCost: number;
+    goods: IGoodForecast[];
+    purchaseCost: number;
+    expectedRevenue: number;
+    salesRevenue: number;
+    netProfit: number;
+    roi: number;
+}
+
+export interface IRefuelStop {
+    location: string;
+    fuel: number;
+    cost: number;
+    purpose?: FuelPurpose;
+}
+
+export interface ISale {
+    good: string;
+    quantity: number;
+    location: string;
+    revenue: number;
+}
+
+export interface IGoodForecast {
+    good: string;
+    quantity: number;
+    purchaseCost: number;
+    expectedRevenue: number;
+    expectedProfit: number;
 }
 
 export interface ITrade {
@@ -52,10 +114,203 @@ export interface ITrade {
 
 export interface ITradeOption {
     trade: ITrade;
+    path: IRouteSegment[];
+    distance: number;
+    cost: number;
+    profit: number;
     profitPerDU: number;
+    flightTime: number;
+    profitPerSecond: number;
+    observedAt: string;
+    dataAge: number;
+    score: number;
+}
+
+export interface ITradeScorer {
+    name: string;
+    score(option: ITradeOption, ship: IShip): number;
+}
+
+export interface IPriceImpactModel {
+    impact: number;
+    spread?: number;
 }
 
 export interface INavigationParameters {
-    range: number;
-    fuelMargin: number;
+    range?: number;
+    fuelMargin?: number;
+    rankBy?: TradeRanking;
+    scorer?: ITradeScorer;
+    credits?: number;
+    reserve?: number;
+    greedyCargo?: boolean;
+    maxMarketAge?: number;
+    staleMarkets?: StaleMarketPolicy;
+    departure?: string;
+    priceImpact?: IPriceImpactModel;
+    maxRefuelStops?: number;
+    fuelReserve?: number;
+    fuelStockpile?: IFuelStockpile;
+    allowedGoods?: string[];
+    deniedGoods?: string[];
+    allowedLocations?: string[];
+    deniedLocations?: string[];
+    deniedLocationTypes?: string[];
+    destination?: string;
+}
+
+export interface IFuelStockpile {
+    discount: number;
+    quantity: number;
+}
+
+export interface IAlternativesParameters extends INavigationParameters {
+    limit?: number;
+}
+
+export interface IRoutePlanParameters extends INavigationParameters {
+    hops: number;
+    breadth?: number;
+}
+
+export interface IFleetParameters extends INavigationParameters {
+    spread?: boolean;
+}
+
+export interface ITradeLeg {
+    origin: string;
+    destination: string;
+    cargo: ICargo[];
+    waypoints: IRouteSegment[];
+    fuel: number;
+    profit: number;
+}
+
+export interface IRoutePlan {
+    legs: ITradeLeg[];
+    profit: number;
+}
+
+export interface IArbitrage {
+    good: string;
+    profitPerVolume: number;
+}
+
+export interface IArbitrageMatrix {
+    [origin: string]: { [destination: string]: IArbitrage[] };
+}
+
+export interface ITradeLoopParameters {
+    stops?: number;
+    limit?: number;
+    range?: number;
+    rankBy?: TradeRanking;
+}
+
+export interface ITradeLoopLeg {
+    origin: string;
+    destination: string;
+    good: string;
+    waypoints: IRouteSegment[];
+    distance: number;
+    flightTime: number;
+    profit: number;
+}
+
+export interface ITradeLoop {
+    locations: string[];
+    legs: ITradeLoopLeg[];
+    profit: number;
+    distance: number;
+    flightTime: number;
+    profitPerDU: number;
+    profitPerSecond: number;
+}
+
+export interface ITradeCandidate {
+    destination: string;
+    good: string;
+    score: number;
+    rejection: RejectionReason;
+}
+
+export interface INavigationDiagnostics {
+    candidates: ITradeCandidate[];
+    error: NavigationErrorCode;
+}
+
+export interface INavigationSnapshot {
+    locations: ILocation[];
+    ship: IShip;
+    tradeOptions?: ITradeOption[];
+    scorer?: ITradeScorer;
+}
+
+export interface IPlanResult {
+    route: ITradeRoute;
+    diagnostics: INavigationDiagnostics;
+}
+
+export interface IAlternativesResult {
+    routes: ITradeRoute[];
+    diagnostics: INavigationDiagnostics;
+}
+
+export interface IFleetAssignment {
+    ship: string;
+    route: ITradeRoute;
+    diagnostics: INavigationDiagnostics;
+}
+
+export interface IFleetPlan {
+    assignments: IFleetAssignment[];
+    profit: number;
+}
+
+export interface IMarketSnapshot {
+    observedAt: string;
+    locations: ILocation[];
+}
+
+export interface IPriceVolatility {
+    [good: string]: number;
+}
+
+export interface ISimulationParameters extends INavigationParameters {
+    legs?: number;
+}
+
+export interface ISimulationLeg {
+    departure: string;
+    origin: string;
+    destination: string;
+    route: ITradeRoute;
+    revenue: number;
+    fuelBurned: number;
+    profit: number;
+    credits: number;
+}
+
+export interface ISimulationResult {
+    legs: ISimulationLeg[];
+    ship: IShip;
+    startingCredits: number;
+    credits: number;
+    profit: number;
+    expectedProfit: number;
+    stop: SimulationStop;
+    error: NavigationErrorCode;
+}
+
+export interface IValidationIssue {
+    path: string;
+    message: string;
+}
+
+export interface IDistransOptions {
+    token?: string;
+    baseUrl?: string;
+    retries?: number;
+    retryDelay?: number;
+    fetch?: (url: string, init?: RequestInit) => Promise<Response>;
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { IShipProfile } from './interfaces/index.js';
+import { ShipClass } from './enums/index.js';
+import { UnknownShipTypeError } from './errors/index.js';
+
+/**
+ * Keeps the profiles of the ship types. The Mentat reads a ship's profile
+ * to calculate the FUEL it spends and the space it takes.
+ * 
+ * The known ship types are registered by default and any profile can be
+ * registered or overridden at runtime.
+ * 
+ * USAGE
+ *  - Ixian.registerProfile({ type: "ZA-MK-II", fuelMultiplier: .25, planetPenalty: 2, fuelVolume: 1, speed: 2 });
+ *  - const profile: IShipProfile = Ixian.getProfile(ship.type);
+ * 
+ * NOTES
+ *  - Getting the profile of an unknown ship type throws an UnknownShipTypeError,
+ *      unless a fallback profile is set with setFallbackProfile.
+ * 
+ * Named after the Ixians from Frank Herbert's "Dune", the makers of the Guild's heighliners.
+ * https://dune.fandom.com/wiki/Ix
+ * https://en.wikipedia.org/wiki/Dune_(novel)
+ */
+export class Ixian {
+    private static _profiles: { [type: string]: IShipProfile } = {
+        [ShipClass.JW_MK_I]: { type: ShipClass.JW_MK_I, fuelMultiplier: .25, planetPenalty: 2, fuelVolume: 1, speed: 1 },
+        [ShipClass.GR_MK_I]: { type: ShipClass.GR_MK_I, fuelMultiplier: .25, planetPenalty: 2, fuelVolume: 1, speed: 1 },
+        [ShipClass.GR_MK_II]: { type: ShipClass.GR_MK_II, fuelMultiplier: .25, planetPenalty: 3, fuelVolume: 1, speed: 1 },
+        [ShipClass.GR_MK_III]: { type: ShipClass.GR_MK_III, fuelMultiplier: .25, planetPenalty: 4, fuelVolume: 1, speed: 1 },
+        [ShipClass.EM_MK_I]: { type: ShipClass.EM_MK_I, fuelMultiplier: .25, planetPenalty: 2, fuelVolume: 1, speed: 2 },
+        [ShipClass.HM_MK_I]: { type: ShipClass.HM_MK_I, fuelMultiplier: .25, planetPenalty: 2, fuelVolume: 1, speed: 3 },
+        [ShipClass.HM_MK_III]: { type: ShipClass.HM_MK_III, fuelMultiplier: .188, planetPenalty: 1, fuelVolume: 1, speed: 3 },
+    };
+    private static _fallbackProfile: IShipProfile = null;
+
+    static get profiles(): IShipProfile[] {
+        return Object.keys(Ixian._profiles).map((type: string) => Ixian._profiles[type]);
+    }
+
+    static get fallbackProfile(): IShipProfile {
+        return Ixian._fallbackProfile;
+    }
+
+    /**
+     * Registers the profile of a ship type. Overrides any existing profile of the same type.
+     * 
+     * @param profile IShipProfile
+     */
+    public static registerProfile(profile: IShipProfile): void {
+        Ixian._profiles[profile.type] = profile;
+    }
+
+    /**
+     * Sets the profile used for ship types that are not registered.
+     * Setting it to null makes unknown ship types throw errors again.
+     * 
+     * @param profile IShipProfile
+     */
+    public static setFallbackProfile(profile: IShipProfile): void {
+        Ixian._fallbackProfile = profile;
+    }
+
+    /**
+     * 
+     * @param type string
+     * @returns boolean
+     */
+    public static hasProfile(type: string): boolean {
+        return Ixian._profiles.hasOwnProperty(type);
+    }
+
+    /**
+     * 
+     * @param type string
+     * @returns IShipProfile
+     */
+    public static getProfile(type: string): IShipProfile {
+        if (Ixian.hasProfile(type)) {
+            return Ixian._profiles[type];
+        }
+
+        if (Ixian._fallbackProfile) {
+            return Ixian._fallbackProfile;
+        }
+
+        throw new UnknownShipTypeError(type);
+    }
+}
\ No newline at end of file
@@ -1,5 +1,6 @@
-import { IShip, ILocation, IGood, ICargo } from './interfaces/index.js';
-import { ShipClass } from './enums/index.js';
+import { IShip, ILocation, IGood, ICargo, ITrade, ITradeLeg, IWarpGate, IRouteSegment, IShipProfile, IGoodForecast, ITradeRoute, ISale, ISimulationLeg, IArbitrage, IArbitrageMatrix, ITradeLoopLeg, IPriceImpactModel, IRefuelStop, IMarketSnapshot, IPriceVolatility, ITradeOption } from './interfaces/index.js';
+import { FuelPurpose } from './enums/index.js';
+import { Ixian } from './ixian.js';
 
 /**
  * Named after Mentats from Frank Herbert's "Dune".
@@ -7,52 +8,172 @@ import { ShipClass } from './enums/index.js';
  * https://en.wikipedia.org/wiki/Dune_(novel)
  */
 export class Mentat {
+    /**
+     * FUEL spent for a warp jump when the gate does not specify it.
+     */
+    public static readonly WARP_JUMP_FUEL: number = 1;
+
+    /**
+     * Seconds spent docking and undocking on every flight.
+     */
+    public static readonly DOCKING_TIME: number = 30;
+
     /**
      * Kudos to Redcrafter
      * 
+     * The fuel multiplier and the planet penalty are read from the ship's profile.
+     * Throws an error for ship types without a profile, unless a fallback profile is set.
+     * 
      * @param ship IShip
      * @param location ILocation
      * @param destination ILocation
      * @returns number
      */
     public static calculateFuelToTravel(ship: IShip, location: ILocation, destination: ILocation): number {
-        const isPlanet = location.type == "PLANET";
+        const profile: IShipProfile = Ixian.getProfile(ship.type);
+        const penalty: number = location.type == "PLANET" ? profile.planetPenalty : 0;
+
+        return Math.round(Math.round(Mentat.calculateLocationDistance(location, destination)) * profile.fuelMultiplier) + penalty + 1;
+    }
 
-        let penalty = 0;
-        let multiplier = .25;
+    /**
+     * Ships use the speed of their profile when they don't have one.
+     * 
+     * @param ship IShip
+     * @returns number
+     */
+    public static calculateShipSpeed(ship: IShip): number {
+        return ship.speed || Ixian.getProfile(ship.type).speed;
+    }
 
-        switch (ship.type) {
-            case ShipClass.HM_MK_III:
-                multiplier = 0.188;
-                penalty = isPlanet ? 1 : 0;
-                break;
+    /**
+     * Calculates the seconds of a flight, including docking.
+     * 
+     * @param distance number
+     * @param speed number
+     * @param dockingTime number (optional)
+     * @returns number
+     */
+    public static calculateFlightTime(distance: number, speed: number, dockingTime: number = Mentat.DOCKING_TIME): number {
+        return Math.round(distance * (2 / speed)) + dockingTime;
+    }
 
-            case ShipClass.GR_MK_III:
-                penalty = isPlanet ? 4 : 0;
-                break;
+    /**
+     * Every segment of the path is a separate flight. Warp jumps only take the docking time.
+     * 
+     * @param ship IShip
+     * @param path IRouteSegment[]
+     * @param dockingTime number (optional)
+     * @returns number
+     */
+    public static calculatePathFlightTime(ship: IShip, path: IRouteSegment[], dockingTime: number = Mentat.DOCKING_TIME): number {
+        const speed: number = Mentat.calculateShipSpeed(ship);
+        return path.reduce((time: number, segment: IRouteSegment) => time + Mentat.calculateFlightTime(segment.distance, speed, dockingTime), 0);
+    }
 
-            case ShipClass.GR_MK_II:
-                penalty = isPlanet ? 3 : 0;
-                break;
+    /**
+     * 
+     * @param flightTime number
+     * @param departure Date (optional) Default now
+     * @returns string  ISO 8601 date
+     */
+    public static calculateArrival(flightTime: number, departure: Date = new Date()): string {
+        return new Date(departure.getTime() + (flightTime * 1000)).toISOString();
+    }
 
-            default:
-                penalty = isPlanet ? 2 : 0;
-                break;
-        }
+    /**
+     * 
+     * @param gate IWarpGate
+     * @returns number
+     */
+    public static calculateJumpFuel(gate: IWarpGate): number {
+        return gate.fuel ?? Mentat.WARP_JUMP_FUEL;
+    }
+
+    /**
+     * 
+     * @param path IRouteSegment[]
+     * @returns number
+     */
+    public static calculatePathFuel(path: IRouteSegment[]): number {
+        return path.reduce((fuel: number, segment: IRouteSegment) => fuel + segment.fuel, 0);
+    }
 
-        return Math.round(Math.round(Mentat.calculateLocationDistance(location, destination)) * multiplier) + penalty + 1;
+    /**
+     * 
+     * @param path IRouteSegment[]
+     * @returns number
+     */
+    public static calculatePathDistance(path: IRouteSegment[]): number {
+        return path.reduce((distance: number, segment: IRouteSegment) => distance + segment.distance, 0);
     }
 
     /**
      * 
      * @param ship IShip
      * @param fuelToTravel number
+     * @param margin number     Default 0. In % (ex. 5 is 5%), on the FUEL for the trip
+     * @param reserve number    Default 0. The FUEL to have left at arrival (see calculateReserveQuantity)
      * @returns number
      */
-    public static calculateFuelQuantity(ship: IShip, fuelToTravel: number, margin: number = 0): number {
+    public static calculateFuelQuantity(ship: IShip, fuelToTravel: number, margin: number = 0, reserve: number = 0): number {
         let currentFuel: number = ship.cargo.filter((c: ICargo) => c.good === "FUEL")[0]?.quantity || 0;
         let quantity: number = currentFuel >= fuelToTravel ? 0 : fuelToTravel - currentFuel;
-        return Math.ceil(quantity * (1 + (0.01 * margin)));
+        return Math.ceil(quantity * (1 + (0.01 * margin))) + Mentat.calculateReserveQuantity(ship, fuelToTravel, reserve);
+    }
+
+    /**
+     * The FUEL to buy so the ship arrives with the reserve, on top of the FUEL for the trip.
+     * The FUEL in the hold counts towards it once the trip is covered. The margin does not.
+     * 
+     * @param ship IShip
+     * @param fuelToTravel number
+     * @param reserve number    Default 0
+     * @returns number
+     */
+    public static calculateReserveQuantity(ship: IShip, fuelToTravel: number, reserve: number = 0): number {
+        let currentFuel: number = ship.cargo.filter((c: ICargo) => c.good === "FUEL")[0]?.quantity || 0;
+        let leftover: number = Math.max(currentFuel - fuelToTravel, 0);
+        return Math.max(Math.ceil(reserve || 0) - leftover, 0);
+    }
+
+    /**
+     * 
+     * @param locations ILocation[]
+     * @returns number  The average purchase price of FUEL in the locations' marketplaces. null if none sells FUEL
+     */
+    public static calculateAverageFuelPrice(locations: ILocation[]): number {
+        const prices: number[] = locations
+            .map((location: ILocation) => (location.marketplace || []).filter((good: IGood) => good.symbol === "FUEL")[0])
+            .filter((good: IGood) => good)
+            .map((good: IGood) => good.purchasePricePerUnit);
+
+        return prices.length ? prices.reduce((sum: number, price: number) => sum + price, 0) / prices.length : null;
+    }
+
+    /**
+     * The FUEL to stockpile: enough to arrive with the target, within the space,
+     * the FUEL left in the market and the credits.
+     * 
+     * @param ship IShip
+     * @param fuel IGood            The FUEL of the marketplace
+     * @param bought number         The FUEL already bought there
+     * @param target number         The FUEL to have at arrival
+     * @param arrivalFuel number    The FUEL left at arrival without the stockpile
+     * @param space number
+     * @param budget number
+     * @param model IPriceImpactModel (optional) Default none. The credits are checked at the price of the next unit
+     * @returns number
+     */
+    public static calculateStockpileQuantity(ship: IShip, fuel: IGood, bought: number, target: number, arrivalFuel: number, space: number, budget: number, model: IPriceImpactModel = null): number {
+        const quantity: number = Math.min(
+            target - arrivalFuel,
+            space / Mentat.calculateFuelToTravelVolume(1, ship),
+            fuel.quantityAvailable - bought,
+            Mentat.calculateAffordableQuantity(budget, Mentat.calculateMarginalPurchasePrice(fuel, bought, model))
+        );
+
+        return Math.max(Math.floor(quantity), 0);
     }
 
     /**
@@ -104,20 +225,128 @@ export class Mentat {
      * 
      * @param good IGood
      * @param amount number
+     * @param model IPriceImpactModel (optional) Default none. Sells at the average price of the amount
+     * @returns number
+     */
+    public static calculateGoodProfit(good: IGood, amount: number, model: IPriceImpactModel = null): number {
+        return Mentat.calculateAverageSellPrice(good, amount, model) * amount;
+    }
+
+    /**
+     * 
+     * @param good IGood
+     * @param amount number
+     * @param model IPriceImpactModel (optional) Default none. Buys at the average price of the amount
      * @returns number
      */
-    public static calculateGoodProfit(good: IGood, amount: number): number {
-        return good.sellPricePerUnit * amount;
+     public static calculateGoodCost(good: IGood, amount: number, model: IPriceImpactModel = null): number {
+        return Mentat.calculateAveragePurchasePrice(good, amount, model) * amount;
     }
 
     /**
+     * The cost of buying more of a good, after some of it was already bought at the same market.
      * 
      * @param good IGood
      * @param amount number
+     * @param bought number         The quantity already bought
+     * @param model IPriceImpactModel (optional) Default none
+     * @returns number
+     */
+    public static calculateAdditionalGoodCost(good: IGood, amount: number, bought: number, model: IPriceImpactModel = null): number {
+        return Mentat.calculateGoodCost(good, bought + amount, model) - Mentat.calculateGoodCost(good, bought, model);
+    }
+
+    /**
+     * 
+     * @param cargo ICargo[]
+     * @param good string
+     * @returns number  The quantity of the good in all the cargo's entries
+     */
+    public static calculateCargoQuantity(cargo: ICargo[], good: string): number {
+        return cargo.reduce((quantity: number, c: ICargo) => c.good === good ? quantity + c.quantity : quantity, 0);
+    }
+
+    /**
+     * Calculates how far the unit price of a good moves when a market's whole available quantity
+     * is traded: the model's impact share of the price, plus the spread (times the model's spread, default 1).
+     * The price moves linearly with the quantity in between.
+     * 
+     * @param good IGood
+     * @param model IPriceImpactModel
+     * @returns number
+     */
+    public static calculatePriceImpact(good: IGood, model: IPriceImpactModel): number {
+        return (good.pricePerUnit * model.impact) + (good.spread * (model.spread ?? 1));
+    }
+
+    /**
+     * The price rises with every unit bought. The average price is half way to the price of the last unit.
+     * 
+     * @param good IGood
+     * @param quantity number
+     * @param model IPriceImpactModel (optional) Default none. Without a model, every unit is bought at purchasePricePerUnit
+     * @returns number
+     */
+    public static calculateAveragePurchasePrice(good: IGood, quantity: number, model: IPriceImpactModel = null): number {
+        if (!model) {
+            return good.purchasePricePerUnit;
+        }
+
+        return good.purchasePricePerUnit + (Mentat.calculatePriceImpact(good, model) * quantity / Math.max(good.quantityAvailable, 1) / 2);
+    }
+
+    /**
+     * The price drops with every unit sold. The average price is half way to the price of the last unit.
+     * The depth of the buying market is taken from its available quantity.
+     * 
+     * @param good IGood
+     * @param quantity number
+     * @param model IPriceImpactModel (optional) Default none. Without a model, every unit is sold at sellPricePerUnit
+     * @returns number
+     */
+    public static calculateAverageSellPrice(good: IGood, quantity: number, model: IPriceImpactModel = null): number {
+        if (!model) {
+            return good.sellPricePerUnit;
+        }
+
+        return Math.max(good.sellPricePerUnit - (Mentat.calculatePriceImpact(good, model) * quantity / Math.max(good.quantityAvailable, 1) / 2), 0);
+    }
+
+    /**
+     * 
+     * @param good IGood
+     * @param quantity number   The units bought so far
+     * @param model IPriceImpactModel (optional) Default none
+     * @returns number  The price of the next unit
+     */
+    public static calculateMarginalPurchasePrice(good: IGood, quantity: number, model: IPriceImpactModel = null): number {
+        if (!model) {
+            return good.purchasePricePerUnit;
+        }
+
+        return good.purchasePricePerUnit + (Mentat.calculatePriceImpact(good, model) * quantity / Math.max(good.quantityAvailable, 1));
+    }
+
+    /**
+     * Calculates the quantity of a trade that makes the most profit, past which
+     * buying and selling one more unit loses money.
+     * 
+     * @param localGood IGood
+     * @param destinationGood IGood
+     * @param model IPriceImpactModel (optional) Default none. Without a model, there is no limit
      * @returns number
      */
-     public static calculateGoodCost(good: IGood, amount: number): number {
-        return good.purchasePricePerUnit * amount;
+    public static calculateImpactQuantity(localGood: IGood, destinationGood: IGood, model: IPriceImpactModel = null): number {
+        const margin: number = destinationGood.sellPricePerUnit - localGood.purchasePricePerUnit;
+        const slope: number = model
+            ? (Mentat.calculatePriceImpact(localGood, model) / Math.max(localGood.quantityAvailable, 1)) + (Mentat.calculatePriceImpact(destinationGood, model) / Math.max(destinationGood.quantityAvailable, 1))
+            : 0;
+
+        if (margin <= 0) {
+            return 0;
+        }
+
+        return slope > 0 ? Math.floor(margin / slope) : Infinity;
     }
     
     /**
@@ -179,14 +408,122 @@ export class Mentat {
     }
 
     /**
+     * Same as calculateProfitPerDU, for a path of one or more segments.
+     * 
+     * @param aGood IGood   Destination Good
+     * @param bGood IGood   Current Location Good
+     * @param ship IShip
+     * @param path IRouteSegment[]
+     * @param fuelUnitCost number
+     * @returns number
+     */
+    public static calculatePathProfitPerDU(aGood: IGood, bGood: IGood, ship: IShip, path: IRouteSegment[], fuelUnitCost: number): number {
+        let distance: number = Mentat.calculatePathDistance(path);
+
+        if (distance) {
+            return Mentat.calculatePathProfit(aGood, bGood, ship, path, fuelUnitCost) / distance;
+        }
+
+        return 0;
+    }
+
+    /**
+     * Calculates the profit per second of flight, for a path of one or more segments.
+     * 
+     * @param aGood IGood   Destination Good
+     * @param bGood IGood   Current Location Good
+     * @param ship IShip
+     * @param path IRouteSegment[]
+     * @param fuelUnitCost number
+     * @param dockingTime number (optional)
+     * @returns number
+     */
+    public static calculatePathProfitPerSecond(aGood: IGood, bGood: IGood, ship: IShip, path: IRouteSegment[], fuelUnitCost: number, dockingTime: number = Mentat.DOCKING_TIME): number {
+        let flightTime: number = Mentat.calculatePathFlightTime(ship, path, dockingTime);
+
+        if (flightTime) {
+            return Mentat.calculatePathProfit(aGood, bGood, ship, path, fuelUnitCost) / flightTime;
+        }
+
+        return 0;
+    }
+
+    /**
+     * Calculates the profit of filling the cargo space left after refueling with a single good.
+     * 
+     * @param aGood IGood   Destination Good
+     * @param bGood IGood   Current Location Good
+     * @param ship IShip
+     * @param path IRouteSegment[]
+     * @param fuelUnitCost number
+     * @returns number
+     */
+    public static calculatePathProfit(aGood: IGood, bGood: IGood, ship: IShip, path: IRouteSegment[], fuelUnitCost: number): number {
+        let fuel: number = Mentat.calculatePathFuel(path);
+        let fuelCost: number = Mentat.calculateFuelToTravelCost(fuel, fuelUnitCost);
+        let goodProfitPerVol: number = Mentat.calculateGoodProfitPerVol(aGood, bGood);
+
+        return (goodProfitPerVol * (ship.spaceAvailable - fuel)) - fuelCost;
+    }
+
+    /**
+     * Same as calculatePathProfit, but no more of the good is bought than the market has available.
+     * 
+     * @param aGood IGood   Destination Good
+     * @param bGood IGood   Current Location Good
+     * @param ship IShip
+     * @param path IRouteSegment[]
+     * @param fuelUnitCost number
+     * @returns number
+     */
+    public static calculateStockedPathProfit(aGood: IGood, bGood: IGood, ship: IShip, path: IRouteSegment[], fuelUnitCost: number): number {
+        let fuel: number = Mentat.calculatePathFuel(path);
+        let fuelCost: number = Mentat.calculateFuelToTravelCost(fuel, fuelUnitCost);
+        let quantity: number = Math.min(
+            bGood.quantityAvailable,
+            Mentat.calculateGoodQuantity(ship.spaceAvailable - Mentat.calculateFuelToTravelVolume(fuel, ship), bGood.volumePerUnit)
+        );
+
+        return ((aGood.sellPricePerUnit - bGood.purchasePricePerUnit) * Math.max(quantity, 0)) - fuelCost;
+    }
+
+    /**
+     * Calculates the cost of filling the cargo space left after refueling with a single good,
+     * including the FUEL for the path.
+     * 
+     * @param bGood IGood   Current Location Good
+     * @param ship IShip
+     * @param path IRouteSegment[]
+     * @param fuelUnitCost number
+     * @returns number
+     */
+    public static calculatePathCost(bGood: IGood, ship: IShip, path: IRouteSegment[], fuelUnitCost: number): number {
+        let fuel: number = Mentat.calculatePathFuel(path);
+        let fuelCost: number = Mentat.calculateFuelToTravelCost(fuel, fuelUnitCost);
+        let goodPricePerVol: number = Mentat.calculatePricePerVolume(bGood.purchasePricePerUnit, bGood.volumePerUnit);
+
+        return (goodPricePerVol * (ship.spaceAvailable - fuel)) + fuelCost;
+    }
+
+    /**
+     * 
+     * @param profit number
+     * @param cost number
+     * @returns number
+     */
+    public static calculateReturnOnInvestment(profit: number, cost: number): number {
+        return cost ? profit / cost : 0;
+    }
+
+    /**
+     * The volume of a FUEL unit is read from the ship's profile. Without a ship it is 1.
      * 
      * @param amount number
+     * @param ship IShip (optional)
      * @returns number
      */
-    public static calculateFuelToTravelVolume(amount: number): number {
-        // Currently fuel is only 1 so I just hardcode the value.
-        // This should be moved to some constant so it can be controlled outside this function.
-        return amount * 1;
+    public static calculateFuelToTravelVolume(amount: number, ship?: IShip): number {
+        return amount * (ship ? Ixian.getProfile(ship.type).fuelVolume : 1);
     }
 
     /**
@@ -206,7 +543,641 @@ export class Mentat {
      * @returns number
      */
     public static calculateRemainingSpaceAfterRefuel(ship: IShip, fuelQuantity: number): number {
-        return ship.spaceAvailable - Mentat.calculateFuelToTravelVolume(fuelQuantity);
+        return ship.spaceAvailable - Mentat.calculateFuelToTravelVolume(fuelQuantity, ship);
+    }
+
+    /**
+     * 
+     * @param ship IShip
+     * @param fuelQuantity number  FUEL bought for the trip
+     * @param fuelToTravel number  FUEL spent on the trip
+     * @returns number
+     */
+    public static calculateRemainingFuel(ship: IShip, fuelQuantity: number, fuelToTravel: number): number {
+        let currentFuel: number = ship.cargo.filter((c: ICargo) => c.good === "FUEL")[0]?.quantity || 0;
+        return Math.max(currentFuel + fuelQuantity - fuelToTravel, 0);
+    }
+
+    /**
+     * 
+     * @param stops IRefuelStop[]
+     * @returns number
+     */
+    public static calculateRefuelCost(stops: IRefuelStop[]): number {
+        return stops.reduce((cost: number, stop: IRefuelStop) => cost + stop.cost, 0);
+    }
+
+    /**
+     * 
+     * @param cargoCost number      The cargo bought at the location
+     * @param refuelCost number     The FUEL bought at the refuel stops
+     * @returns number
+     */
+    public static calculateRouteSpend(cargoCost: number, refuelCost: number): number {
+        return cargoCost + refuelCost;
+    }
+
+    /**
+     * Calculates the FUEL bought for a route and kept in the hold: the FUEL for the trip, the reserve
+     * and the FUEL of the refuel stops. FUEL bought to trade is sold at the destination.
+     * 
+     * @param route ITradeRoute
+     * @returns number
+     */
+    public static calculateRouteFuel(route: ITradeRoute): number {
+        const fuel: number = route.cargo
+            .filter((c: ICargo) => c.good === "FUEL" && c.purpose !== FuelPurpose.TRADE)
+            .reduce((quantity: number, c: ICargo) => quantity + c.quantity, 0);
+
+        return route.refuelStops.reduce((quantity: number, stop: IRefuelStop) => quantity + stop.fuel, fuel);
+    }
+
+    /**
+     * 
+     * @param loads number[]    The FUEL in the hold when leaving each stop, beyond the FUEL on board at departure
+     * @returns number
+     */
+    public static calculateLargestFuelLoad(loads: number[]): number {
+        return Math.max(0, ...loads);
+    }
+
+    /**
+     * 
+     * @param maxCargo number
+     * @param cargo ICargo[]
+     * @returns number
+     */
+    public static calculateSpaceAvailable(maxCargo: number, cargo: ICargo[]): number {
+        return cargo.reduce((space: number, c: ICargo) => space - c.totalVolume, maxCargo);
+    }
+
+    /**
+     * Goods that are not part of the trades are ignored.
+     * 
+     * @param goods ICargo[]    Cargo bought for the trades, without the FUEL for the trip
+     * @param trades ITrade[]
+     * @param fuelCost number
+     * @param model IPriceImpactModel (optional) Default none
+     * @param bought ICargo[] (optional) Default none. Cargo bought before the goods, at the same market (ex. the FUEL for the trip)
+     * @returns number
+     */
+    public static calculateCargoProfit(goods: ICargo[], trades: ITrade[], fuelCost: number, model: IPriceImpactModel = null, bought: ICargo[] = []): number {
+        let profit: number = 0;
+
+        for (let i = 0; i < goods.length; i++) {
+            let trade: ITrade = trades.filter((t: ITrade) => t.localGood.symbol === goods[i].good)[0];
+
+            if (trade) {
+                profit += Mentat.calculateGoodProfit(trade.destinationGood, goods[i].quantity, model);
+                profit -= Mentat.calculateAdditionalGoodCost(trade.localGood, goods[i].quantity, Mentat.calculateCargoQuantity(bought, goods[i].good), model);
+            }
+        }
+
+        return profit - fuelCost;
+    }
+
+    /**
+     * Forecasts the cost, revenue and profit of each good bought for the trades.
+     * Goods that are not part of the trades are ignored.
+     * 
+     * @param goods ICargo[]    Cargo bought for the trades, without the FUEL for the trip
+     * @param trades ITrade[]
+     * @param model IPriceImpactModel (optional) Default none
+     * @param bought ICargo[] (optional) Default none. Cargo bought before the goods, at the same market (ex. the FUEL for the trip)
+     * @returns IGoodForecast[]
+     */
+    public static calculateGoodsForecast(goods: ICargo[], trades: ITrade[], model: IPriceImpactModel = null, bought: ICargo[] = []): IGoodForecast[] {
+        let forecast: IGoodForecast[] = [];
+
+        for (let i = 0; i < goods.length; i++) {
+            let trade: ITrade = trades.filter((t: ITrade) => t.localGood.symbol === goods[i].good)[0];
+
+            if (trade) {
+                let purchaseCost: number = Mentat.calculateAdditionalGoodCost(trade.localGood, goods[i].quantity, Mentat.calculateCargoQuantity(bought, goods[i].good), model);
+                let expectedRevenue: number = Mentat.calculateGoodProfit(trade.destinationGood, goods[i].quantity, model);
+
+                forecast.push({
+                    good: goods[i].good,
+                    quantity: goods[i].quantity,
+                    purchaseCost,
+                    expectedRevenue,
+                    expectedProfit: expectedRevenue - purchaseCost
+                });
+            }
+        }
+
+        return forecast;
+    }
+
+    /**
+     * 
+     * @param forecast IGoodForecast[]
+     * @returns number
+     */
+    public static calculateForecastPurchaseCost(forecast: IGoodForecast[]): number {
+        return forecast.reduce((cost: number, f: IGoodForecast) => cost + f.purchaseCost, 0);
+    }
+
+    /**
+     * 
+     * @param forecast IGoodForecast[]
+     * @returns number
+     */
+    public static calculateForecastRevenue(forecast: IGoodForecast[]): number {
+        return forecast.reduce((revenue: number, f: IGoodForecast) => revenue + f.expectedRevenue, 0);
+    }
+
+    /**
+     * 
+     * @param revenue number
+     * @param purchaseCost number
+     * @param fuelCost number
+     * @param salesRevenue number (optional) Default 0. The revenue of the goods that were already in the hold
+     * @returns number
+     */
+    public static calculateNetProfit(revenue: number, purchaseCost: number, fuelCost: number, salesRevenue: number = 0): number {
+        return revenue + salesRevenue - purchaseCost - fuelCost;
+    }
+
+    /**
+     * 
+     * @param sales ISale[]
+     * @returns number
+     */
+    public static calculateSalesRevenue(sales: ISale[]): number {
+        return sales.reduce((revenue: number, sale: ISale) => revenue + sale.revenue, 0);
+    }
+
+    /**
+     * 
+     * @param budget number
+     * @param salesRevenue number   The revenue of the goods sold before leaving
+     * @returns number
+     */
+    public static calculateTripBudget(budget: number, salesRevenue: number): number {
+        return budget + salesRevenue;
+    }
+
+    /**
+     * Calculates the cost of buying the cargo from the marketplace. FUEL included.
+     * The entries of the same good are bought at once, so they move the price together.
+     * 
+     * @param cargo ICargo[]
+     * @param marketplace IGood[]
+     * @param model IPriceImpactModel (optional) Default none
+     * @returns number
+     */
+    public static calculateCargoCost(cargo: ICargo[], marketplace: IGood[], model: IPriceImpactModel = null): number {
+        let cost: number = 0;
+        cargo = Mentat.calculateCombinedCargo([], cargo);
+
+        for (let i = 0; i < cargo.length; i++) {
+            let good: IGood = marketplace.filter((g: IGood) => g.symbol === cargo[i].good)[0];
+
+            if (good) {
+                cost += Mentat.calculateGoodCost(good, cargo[i].quantity, model);
+            }
+        }
+
+        return cost;
+    }
+
+    /**
+     * The credits that can be spent, keeping the reserve.
+     * Without credits there is no limit to spending.
+     * 
+     * @param credits number
+     * @param reserve number (optional)
+     * @returns number
+     */
+    public static calculateBudget(credits: number, reserve: number = 0): number {
+        if (credits === undefined || credits === null) {
+            return Infinity;
+        }
+
+        return Math.max(credits - reserve, 0);
+    }
+
+    /**
+     * 
+     * @param budget number
+     * @param unitCost number
+     * @returns number
+     */
+    public static calculateAffordableQuantity(budget: number, unitCost: number): number {
+        return unitCost > 0 ? Math.floor(budget / unitCost) : Infinity;
+    }
+
+    /**
+     * Picks the quantity of each trade's good that maximizes the profit of the cargo,
+     * within the cargo space, the available quantities and the budget.
+     * 
+     * Solved as a bounded knapsack over the cargo space, with each good split in chunks of 1, 2, 4... units.
+     * The budget is checked while packing, so when it is tight the result is a close approximation.
+     * 
+     * With a price-impact model, no good is bought past the quantity that makes the most profit,
+     * and every chunk is valued at the prices it moves the markets to.
+     * 
+     * @param trades ITrade[]  Trades for a single destination
+     * @param space number
+     * @param budget number (optional) Default no limit
+     * @param model IPriceImpactModel (optional) Default none
+     * @returns number[]        The quantity of each trade's good, in the order of the trades
+     */
+    public static calculateOptimalCargo(trades: ITrade[], space: number, budget: number = Infinity, model: IPriceImpactModel = null): number[] {
+        const capacity: number = Math.max(Math.floor(space), 0);
+        const quantities: number[] = trades.map(() => 0);
+        const chunks: { trade: number, quantity: number, volume: number, cost: number, profit: number }[] = [];
+
+        // Split every good in chunks of 1, 2, 4... units, up to the most that could be bought
+        for (let i = 0; i < trades.length; i++) {
+            let good: IGood = trades[i].localGood;
+            let profit: number = trades[i].destinationGood.sellPricePerUnit - good.purchasePricePerUnit;
+            let max: number = Math.min(
+                good.quantityAvailable,
+                Mentat.calculateGoodQuantity(capacity, good.volumePerUnit),
+                Mentat.calculateAffordableQuantity(budget, good.purchasePricePerUnit),
+                Mentat.calculateImpactQuantity(good, trades[i].destinationGood, model)
+            );
+
+            if (profit <= 0) {
+                continue;
+            }
+
+            // Chunks are valued as if the ones before them were bought
+            for (let quantity = 1, bought = 0; max > 0; quantity *= 2) {
+                let chunk: number = Math.min(quantity, max);
+                let cost: number = Mentat.calculateGoodCost(good, bought + chunk, model) - Mentat.calculateGoodCost(good, bought, model);
+                let revenue: number = Mentat.calculateGoodProfit(trades[i].destinationGood, bought + chunk, model) - Mentat.calculateGoodProfit(trades[i].destinationGood, bought, model);
+
+                chunks.push({
+                    trade: i,
+                    quantity: chunk,
+                    volume: Mentat.calculateGoodVolume(chunk, good),
+                    cost,
+                    profit: revenue - cost
+                });
+
+                max -= chunk;
+                bought += chunk;
+            }
+        }
+
+        // Best profit and its cost for every used cargo space
+        const profits: number[] = [];
+        const costs: number[] = [];
+        const picks: boolean[][] = [];
+
+        for (let c = 0; c <= capacity; c++) {
+            profits.push(0);
+            costs.push(0);
+        }
+
+        for (let i = 0; i < chunks.length; i++) {
+            picks.push([]);
+
+            for (let c = capacity; c >= chunks[i].volume; c--) {
+                let profit: number = profits[c - chunks[i].volume] + chunks[i].profit;
+                let cost: number = costs[c - chunks[i].volume] + chunks[i].cost;
+
+                if ((profit > profits[c] || (profit === profits[c] && cost < costs[c])) && cost <= budget) {
+                    profits[c] = profit;
+                    costs[c] = cost;
+                    picks[i][c] = true;
+                }
+            }
+        }
+
+        // Walk back through the picked chunks
+        let c: number = capacity;
+        let remainingSpace: number = capacity;
+        let remainingBudget: number = budget;
+        for (let i = chunks.length - 1; i >= 0; i--) {
+            if (picks[i][c]) {
+                quantities[chunks[i].trade] += chunks[i].quantity;
+                c -= chunks[i].volume;
+                remainingSpace -= chunks[i].volume;
+                remainingBudget -= chunks[i].cost;
+            }
+        }
+
+        // Top up with whatever still fits, in case the budget cut the packing short
+        for (let i = 0; i < trades.length; i++) {
+            let good: IGood = trades[i].localGood;
+
+            if (trades[i].destinationGood.sellPricePerUnit <= good.purchasePricePerUnit) {
+                continue;
+            }
+
+            let limit: number = Math.min(good.quantityAvailable, Mentat.calculateImpactQuantity(good, trades[i].destinationGood, model));
+            let extra: number = Math.min(
+                limit - quantities[i],
+                Mentat.calculateGoodQuantity(remainingSpace, good.volumePerUnit),
+                Mentat.calculateAffordableQuantity(remainingBudget, Mentat.calculateMarginalPurchasePrice(good, limit, model))
+            );
+
+            if (extra > 0) {
+                remainingSpace -= Mentat.calculateGoodVolume(extra, good);
+                remainingBudget -= Mentat.calculateGoodCost(good, quantities[i] + extra, model) - Mentat.calculateGoodCost(good, quantities[i], model);
+                quantities[i] += extra;
+            }
+        }
+
+        return quantities;
+    }
+
+    /**
+     * 
+     * @param legs ITradeLeg[]
+     * @returns number
+     */
+    public static calculateRouteProfit(legs: ITradeLeg[]): number {
+        return legs.reduce((profit: number, leg: ITradeLeg) => profit + leg.profit, 0);
+    }
+
+    /**
+     * Calculates the profit per volume of every good between every pair of locations with a marketplace.
+     * Only the goods both marketplaces trade are listed, losing ones included.
+     * 
+     * @param locations ILocation[]
+     * @returns IArbitrageMatrix    matrix[origin][destination], the goods sorted by profit per volume
+     */
+    public static calculateArbitrageMatrix(locations: ILocation[]): IArbitrageMatrix {
+        const markets: ILocation[] = locations.filter((location: ILocation) => location.marketplace && location.marketplace.length);
+        const matrix: IArbitrageMatrix = {};
+
+        for (let i = 0; i < markets.length; i++) {
+            matrix[markets[i].symbol] = {};
+
+            for (let j = 0; j < markets.length; j++) {
+                if (i === j) {
+                    continue;
+                }
+
+                let arbitrages: IArbitrage[] = [];
+                for (let k = 0; k < markets[i].marketplace.length; k++) {
+                    let localGood: IGood = markets[i].marketplace[k];
+                    let destinationGood: IGood = markets[j].marketplace.filter((good: IGood) => good.symbol === localGood.symbol)[0];
+
+                    if (destinationGood) {
+                        arbitrages.push({ good: localGood.symbol, profitPerVolume: Mentat.calculateGoodProfitPerVol(destinationGood, localGood) });
+                    }
+                }
+
+                matrix[markets[i].symbol][markets[j].symbol] = Mentat.sortByKey(arbitrages, "profitPerVolume");
+            }
+        }
+
+        return matrix;
+    }
+
+    /**
+     * 
+     * @param legs ITradeLoopLeg[]
+     * @returns number
+     */
+    public static calculateLoopProfit(legs: ITradeLoopLeg[]): number {
+        return legs.reduce((profit: number, leg: ITradeLoopLeg) => profit + leg.profit, 0);
+    }
+
+    /**
+     * 
+     * @param legs ITradeLoopLeg[]
+     * @returns number
+     */
+    public static calculateLoopDistance(legs: ITradeLoopLeg[]): number {
+        return legs.reduce((distance: number, leg: ITradeLoopLeg) => distance + leg.distance, 0);
+    }
+
+    /**
+     * 
+     * @param legs ITradeLoopLeg[]
+     * @returns number
+     */
+    public static calculateLoopFlightTime(legs: ITradeLoopLeg[]): number {
+        return legs.reduce((flightTime: number, leg: ITradeLoopLeg) => flightTime + leg.flightTime, 0);
+    }
+
+    /**
+     * The volatility of each good is the coefficient of variation of its price (the standard deviation
+     * over the mean) in every market it was observed at least twice, averaged over those markets.
+     * 
+     * @param history IMarketSnapshot[]     The past observations of the markets, in any order
+     * @returns IPriceVolatility    Goods observed less than twice in every market are left out
+     */
+    public static calculatePriceVolatility(history: IMarketSnapshot[]): IPriceVolatility {
+        const prices: { [market: string]: number[] } = {};
+
+        history.forEach((snapshot: IMarketSnapshot) => {
+            snapshot.locations.forEach((location: ILocation) => {
+                (location.marketplace || []).forEach((good: IGood) => {
+                    const market: string = `${location.symbol}|${good.symbol}`;
+                    prices[market] = (prices[market] || []).concat([good.pricePerUnit]);
+                });
+            });
+        });
+
+        const variations: { [good: string]: number[] } = {};
+
+        Object.keys(prices).forEach((market: string) => {
+            const series: number[] = prices[market];
+            const mean: number = series.reduce((sum: number, price: number) => sum + price, 0) / series.length;
+
+            if (series.length < 2 || mean <= 0) {
+                return;
+            }
+
+            const variance: number = series.reduce((sum: number, price: number) => sum + Math.pow(price - mean, 2), 0) / series.length;
+            const good: string = market.split("|")[1];
+            variations[good] = (variations[good] || []).concat([Math.sqrt(variance) / mean]);
+        });
+
+        const volatility: IPriceVolatility = {};
+
+        Object.keys(variations).forEach((good: string) => {
+            volatility[good] = variations[good].reduce((sum: number, variation: number) => sum + variation, 0) / variations[good].length;
+        });
+
+        return volatility;
+    }
+
+    /**
+     * The expected profit of a trade minus a penalty for the risk on its sale:
+     * the sale's value, times the volatility of the good, times the penalty.
+     * 
+     * @param option ITradeOption
+     * @param volatility number     See calculatePriceVolatility
+     * @param penalty number        Default 1. 0 ignores the risk
+     * @returns number
+     */
+    public static calculateRiskAdjustedProfit(option: ITradeOption, volatility: number, penalty: number = 1): number {
+        const saleValue: number = option.cost + option.profit;
+        return option.profit - (penalty * volatility * saleValue);
+    }
+
+    /**
+     * 
+     * @param profit number
+     * @param distance number
+     * @returns number  0 if there is no distance
+     */
+    public static calculateProfitPerDistance(profit: number, distance: number): number {
+        return distance ? profit / distance : 0;
+    }
+
+    /**
+     * 
+     * @param profit number
+     * @param flightTime number
+     * @returns number  0 if there is no flight time
+     */
+    public static calculateProfitPerTime(profit: number, flightTime: number): number {
+        return flightTime ? profit / flightTime : 0;
+    }
+
+    /**
+     * 
+     * @param routes ITradeRoute[]  Ships without a route are skipped
+     * @returns number
+     */
+    public static calculateFleetProfit(routes: ITradeRoute[]): number {
+        return routes.reduce((profit: number, route: ITradeRoute) => route ? profit + route.netProfit : profit, 0);
+    }
+
+    /**
+     * 
+     * @param quantityAvailable number
+     * @param quantity number   The quantity bought
+     * @returns number
+     */
+    public static calculateRemainingQuantity(quantityAvailable: number, quantity: number): number {
+        return Math.max(0, quantityAvailable - quantity);
+    }
+
+    /**
+     * 
+     * @param credits number
+     * @param spend number
+     * @returns number
+     */
+    public static calculateRemainingCredits(credits: number, spend: number): number {
+        return credits - spend;
+    }
+
+    /**
+     * 
+     * @param credits number
+     * @param profit number     The profit of the leg flown before
+     * @returns number
+     */
+    public static calculateNextLegCredits(credits: number, profit: number): number {
+        return credits + profit;
+    }
+
+    /**
+     * 
+     * @param revenue number
+     * @param spend number
+     * @returns number
+     */
+    public static calculateLegProfit(revenue: number, spend: number): number {
+        return revenue - spend;
+    }
+
+    /**
+     * 
+     * @param credits number
+     * @param spend number
+     * @param revenue number
+     * @returns number
+     */
+    public static calculateBalance(credits: number, spend: number, revenue: number): number {
+        return credits - spend + revenue;
+    }
+
+    /**
+     * 
+     * @param legs ISimulationLeg[]
+     * @returns number
+     */
+    public static calculateSimulationProfit(legs: ISimulationLeg[]): number {
+        return legs.reduce((profit: number, leg: ISimulationLeg) => profit + leg.profit, 0);
+    }
+
+    /**
+     * Adds up the quantities and the volumes of the same goods.
+     * Goods with nothing left are dropped.
+     * 
+     * @param cargo ICargo[]
+     * @param other ICargo[]
+     * @returns ICargo[]
+     */
+    public static calculateCombinedCargo(cargo: ICargo[], other: ICargo[]): ICargo[] {
+        const combined: ICargo[] = cargo.map((c: ICargo) => ({ ...c }));
+
+        for (let i = 0; i < other.length; i++) {
+            let existing: ICargo = combined.filter((c: ICargo) => c.good === other[i].good)[0];
+
+            if (existing) {
+                existing.quantity += other[i].quantity;
+                existing.totalVolume += other[i].totalVolume;
+            } else {
+                combined.push({ ...other[i] });
+            }
+        }
+
+        return combined.filter((c: ICargo) => c.quantity > 0);
+    }
+
+    /**
+     * Markets without an observation time are ignored. Null if neither market has one.
+     * 
+     * @param observedAt string    ISO 8601 date
+     * @param otherObservedAt string    ISO 8601 date
+     * @returns string  The oldest of the two dates
+     */
+    public static calculateOldestObservation(observedAt: string, otherObservedAt: string): string {
+        if (!observedAt || !otherObservedAt) {
+            return observedAt || otherObservedAt || null;
+        }
+
+        return new Date(observedAt).getTime() < new Date(otherObservedAt).getTime() ? observedAt : otherObservedAt;
+    }
+
+    /**
+     * 
+     * @param observedAt string    ISO 8601 date
+     * @param now Date (optional) Default now
+     * @returns number  Seconds since the observation. Null if the observation time is unknown
+     */
+    public static calculateDataAge(observedAt: string, now: Date = new Date()): number {
+        if (!observedAt) {
+            return null;
+        }
+
+        return Math.max(0, Math.round((now.getTime() - new Date(observedAt).getTime()) / 1000));
+    }
+
+    /**
+     * Data within the max age weighs 1. Older data weighs less the older it gets.
+     * 
+     * @param dataAge number    Seconds. Null if unknown
+     * @param maxAge number     Seconds
+     * @returns number  Between 0 and 1
+     */
+    public static calculateFreshnessWeight(dataAge: number, maxAge: number): number {
+        return Mentat.validateMarketAge(maxAge, dataAge) ? 1 : maxAge / dataAge;
+    }
+
+    /**
+     * Weighing down a negative score makes it more negative, so it still ranks lower.
+     * 
+     * @param score number
+     * @param weight number
+     * @returns number
+     */
+    public static calculateWeightedScore(score: number, weight: number): number {
+        return score >= 0 ? score * weight : score / weight;
     }
 
     /**
@@ -220,6 +1191,63 @@ export class Mentat {
         return range > Mentat.calculateDistance(ship.x, ship.y, location.x, location.y);
     }
 
+    /**
+     * 
+     * @param range number
+     * @param path IRouteSegment[]
+     * @returns boolean
+     */
+    public static validatePathRange(range: number, path: IRouteSegment[]): boolean {
+        return range > Mentat.calculatePathDistance(path);
+    }
+
+    /**
+     * 
+     * @param price number      The local purchase price of FUEL
+     * @param average number    The average purchase price of FUEL. See calculateAverageFuelPrice
+     * @param discount number   In % (ex. 20 is 20% below the average)
+     * @returns boolean
+     */
+    public static validateFuelDiscount(price: number, average: number, discount: number): boolean {
+        return average !== null && price <= average * (1 - (0.01 * discount));
+    }
+
+    /**
+     * 
+     * @param good string       The good's symbol
+     * @param allowed string[]  Default any good
+     * @param denied string[]   Default none
+     * @returns boolean
+     */
+    public static validateGood(good: string, allowed?: string[], denied?: string[]): boolean {
+        return (!allowed || allowed.indexOf(good) !== -1) && (!denied || denied.indexOf(good) === -1);
+    }
+
+    /**
+     * 
+     * @param location ILocation
+     * @param allowed string[]      Symbols. Default any location
+     * @param denied string[]       Symbols. Default none
+     * @param deniedTypes string[]  Default none
+     * @returns boolean
+     */
+    public static validateLocation(location: ILocation, allowed?: string[], denied?: string[], deniedTypes?: string[]): boolean {
+        return (!allowed || allowed.indexOf(location.symbol) !== -1)
+            && (!denied || denied.indexOf(location.symbol) === -1)
+            && (!deniedTypes || deniedTypes.indexOf(location.type) === -1);
+    }
+
+    /**
+     * Data of unknown age is always valid.
+     * 
+     * @param maxAge number     Seconds. No limit if not set
+     * @param dataAge number    Seconds. Null if unknown
+     * @returns boolean
+     */
+    public static validateMarketAge(maxAge: number, dataAge: number): boolean {
+        return !maxAge || dataAge === null || dataAge === undefined || dataAge <= maxAge;
+    }
+
     /**
      * 
      * TODO: Move this to a helper class. Mentat only does calculations and verifications.
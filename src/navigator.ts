@@ -1,9 +1,17 @@
-import { ILocation, ICargo, IShip, ITradeRoute, ITrade, IGood, ITradeOption, INavigationParameters } from './interfaces/index.js';
+import { ILocation, IShip, ITradeRoute, IGood, ITradeOption, INavigationParameters, IRoutePlanParameters, IRoutePlan, ITradeScorer, INavigationDiagnostics, INavigationSnapshot, IPlanResult, IAlternativesParameters, IAlternativesResult, ITradeLoop, ITradeLoopParameters } from './interfaces/index.js';
 import { Mentat } from './mentat.js';
+import { NavigationError } from './errors/index.js';
+import { ProfitPerDistanceScorer } from './scorers/index.js';
+import { plan, planAlternatives, planRoute, findTradeLoops, listTradeOptions, listDestinationTradeOptions, getFuelUnitCost, mergeMarketplace, indexBySymbol } from './planner.js';
 
 /**
  * This class handles the logic for the best possible trades from ship's location.
  * 
+ * It is a caching wrapper around the planning functions (see planner.ts).
+ * The trade options from the ship's location are listed once, every time the locations
+ * or the ship are updated, and every navigate() call plans on a fresh copy of them.
+ * A single marketplace update only lists again the trade options to that marketplace.
+ * 
  * Requires a list of locations and the ship data.
  * The locations list will be parsed and each marketplace will be used in the calculations
  * 
@@ -14,6 +22,10 @@ import { Mentat } from './mentat.js';
  * USAGE
  *  - const edric: Navigator = new Navigator(locations, ship);
  *  - const route: ITradeRoute = edric.navigate(); // see navigate method for arguments
+ *  - const routes: ITradeRoute[] = edric.navigateAlternatives({ limit: 3 }); // see navigateAlternatives method for arguments
+ *  - const plan: IRoutePlan = edric.planRoute({ hops: 3 }); // see planRoute method for arguments
+ *  - const loops: ITradeLoop[] = edric.findTradeLoops({ stops: 3 }); // see findTradeLoops method for arguments
+ *  - edric.updateMarketplace("OE-PM", goods); // merges a scout's observation of a marketplace
  * 
  * IMPORTANT
  *  - The navigator handles only the logic for the best possible trades from ship's location.
@@ -23,6 +35,9 @@ import { Mentat } from './mentat.js';
  * NOTES
  *  - Ideally, this should be used once all marketplaces of a system are available and up to date.
  *  - Cached market data that is out of date could result in unprofitable trades as markets are very volatile.
+ *      Set the observedAt of the locations and the maxMarketAge of navigate() to leave stale markets out.
+ *      To rank swinging goods below stable ones, use a scorer from createRiskAdjustedScorer,
+ *      with the volatility of past observations (see Mentat.calculatePriceVolatility).
  * 
  * TODO
  *  - Finish descriptions
@@ -34,11 +49,14 @@ import { Mentat } from './mentat.js';
 export class Navigator {
     private _initialized: boolean = false;
     private _locations: ILocation[];
+    private _locationIndex: { [symbol: string]: ILocation };
     private _ship: IShip;
     private _currentLocation: ILocation;
     private _currentMarketplace: IGood[];
     private _currentFuelUnitCost: number;
     private _tradeOptions: ITradeOption[];
+    private _scorer: ITradeScorer;
+    private _diagnostics: INavigationDiagnostics;
 
     get currentLocation(): ILocation {
         return this._currentLocation;
@@ -56,12 +74,36 @@ export class Navigator {
         return this._tradeOptions;
     }
 
+    get scorer(): ITradeScorer {
+        return this._scorer;
+    }
+
+    get diagnostics(): INavigationDiagnostics {
+        return this._diagnostics;
+    }
+
+    /**
+     * The navigator's data, as passed to the planning functions.
+     * 
+     * @returns INavigationSnapshot
+     */
+    get snapshot(): INavigationSnapshot {
+        return {
+            locations: this._locations,
+            ship: this._ship,
+            tradeOptions: this._tradeOptions,
+            scorer: this._scorer
+        };
+    }
+
     /**
      * 
      * @param locations ILocation[]
      * @param ship ILocation
+     * @param scorer ITradeScorer Default ProfitPerDistanceScorer. Ranks the trade options.
      */
-    constructor(locations: ILocation[], ship: IShip) {
+    constructor(locations: ILocation[], ship: IShip, scorer: ITradeScorer = ProfitPerDistanceScorer) {
+        this._scorer = scorer;
         this.updateLocationsData(locations);
         this.updateShipData(ship);
         this.sortTradeOptions();
@@ -74,6 +116,7 @@ export class Navigator {
      */
     public updateLocationsData(locations: ILocation[]): void {
         this._locations = locations;
+        this._locationIndex = indexBySymbol(locations);
         if (this._initialized) {
             this.setProperties();
             this.sortTradeOptions();
@@ -94,264 +137,184 @@ export class Navigator {
     }
 
     /**
-     * Plots the most profitable trade route
-     * 
-     * - Starts with the list of all possible trades from the current location
-     *      to the provided destinations.
-     * 
-     * - Then, if range is provided, filters those destinations
-     *      to only those in range.
+     * Merges a partial observation of a location's marketplace into the navigator's locations.
      * 
-     * - Verifies any profitable trades and sets the best trade's location as the
-     *      route's destination IF fueling for trip is possible.
+     * The observed goods replace the stored goods with the same symbol, the other goods are kept.
+     * The given locations are not modified, the updated location replaces them in the navigator.
      * 
-     * - Sets the required FUEL in the response to be bought. The final amount of FUEL
-     *      is calculated based on current excess of FUEL in cargo so it will not buy more
-     *      than required for the trip. Unless the fuelMargin is set, in which case it will
-     *      include that margin.
+     * Only the trade options to the location are listed again,
+     * unless it is the ship's location, in which case all of them are.
      * 
-     * - With the destination set, it starts filling cargo with goods, ordered by profit.
-     * 
-     * Theoretically, at destination, after selling the cargo in the result object,
-     * the ship's cargo should be completely empty as all the fuel will be spent and all goods will be sold.
-     * 
-     * If one of the profitable trades happens to be FUEL, it adds an extra entry with FUEL.
-     * This should not be sold as it can be used for further traveling and save costs
-     * because it was bought in a better price.
-     * 
-     * NOTES
-     *  - If there is space left and no more available trades on destination,
-     *      the remaining space will be empty.
-     * 
-     *  - Currently this only works within the ship's system.
-     *      Intersystem route plotting is the future. #TODO
-     * 
-     * PARAMETERS
-     *  - range: Number. Default 0
-     *      The range in units to limit the destinations.
-     *
-     *  - fuelMargin: Number. Default 5
-     *      The error margin in % (ex. 5 is 5%) for fuel.
-     *      It will include extra FUEL based on this parameter.
-     * 
-     * @param params INavigationParameters
-     * @param strict boolean Default false. Throws errors instead of void returns;
-     * @returns ITradeRoute     { destination: ILocation, cargo: ICargo[] }
+     * @param symbol string         The location's symbol
+     * @param goods IGood[]         The observed goods
+     * @param observedAt string     Default now. ISO 8601 date of the observation
+     * @returns boolean     false if the location is unknown
      */
-    public navigate(params: INavigationParameters = { range: 0, fuelMargin: 5 }, strict: boolean = false): ITradeRoute {
-        let trades: ITradeOption[] = this._tradeOptions;
-        
-        // Check if any profitable trades where found
-        if (!trades.length) {
-            if (strict) {
-                throw new Error("No profitable trades found from this ship's position");
-            } else {
-                return;
-            }
+    public updateMarketplace(symbol: string, goods: IGood[], observedAt: string = new Date().toISOString()): boolean {
+        const location: ILocation = this._locationIndex[symbol];
+
+        if (!location) {
+            return false;
         }
 
-        // Filter trades by range
-        if (params.range) {
-            trades = this._tradeOptions.filter((option: ITradeOption) => Mentat.validateRange(this._ship, params.range, option.trade.destination));
+        const updated: ILocation = {
+            ...location,
+            marketplace: mergeMarketplace(location.marketplace || [], goods),
+            observedAt
+        };
 
-            // Check if any profitable trades where found in specified range
-            if (!trades.length) {
-                if (strict) {
-                    throw new Error("No profitable trades found in the specified range");
-                } else {
-                    return;
-                }
+        this._locations = this._locations.map((l: ILocation) => l === location ? updated : l);
+        this._locationIndex[symbol] = updated;
 
-            }
+        if (symbol === this._ship.location) {
+            this.setProperties();
+            this.sortTradeOptions();
+        } else {
+            this.sortDestinationTradeOptions(symbol);
         }
 
-        /**
-         *  At this point all available trades are sanitized
-         *      - They have available quantities for purchase
-         *      - They are profitable
-         *      - They are in range if specified
-         */
-
-        let fuelToTravel: number;
-        let fuelQuantity: number;
-        let fuelVolume: number;
-        let localFuel: IGood;
-        let destination: ILocation;
-
-        // Get the first destination that can be fueled
-        for (let i = 0; i < trades.length; i++) {
-            let trade: ITrade = trades[i].trade;
-
-            fuelToTravel = Mentat.calculateFuelToTravel(this._ship, this.currentLocation, trade.destination);
-            fuelQuantity = Mentat.calculateFuelQuantity(this._ship, fuelToTravel, params.fuelMargin);
-            fuelVolume = Mentat.calculateFuelToTravelVolume(fuelQuantity);
-            localFuel = this.currentMarketplace.filter((g: IGood) => g.symbol === "FUEL")[0];
-    
-            // Check if there is enough available fuel in market for refueling
-            if (fuelQuantity > (localFuel?.quantityAvailable || 0)) {
-                // throw new Error("Not enough available fuel for this trip");
-
-                // Remove from available trades as it is not possible
-                trades.splice(i, 1);
-                continue;
-            }
-    
-            // Check if there is enough space for refuel
-            if (this._ship.spaceAvailable < fuelQuantity) {
-                // throw new Error("Not enough space for refuel");
-
-                // Remove from available trades as it is not possible
-                trades.splice(i, 1);
-                continue;
-            }
+        return true;
+    }
 
-            // Get first destination that we have enough available fuel to travel to.
-            destination = trade.destination;
-            break;
-        }
+    /**
+     * Moves the ship to a known location. Its coordinates are set to the location's.
+     * 
+     * All the trade options depend on the ship's location, so they are all listed again.
+     * 
+     * @param symbol string     The location's symbol
+     * @returns boolean     false if the location is unknown
+     */
+    public updateShipPosition(symbol: string): boolean {
+        const location: ILocation = this._locationIndex[symbol];
 
-        // Check if a destination was found that can be fueled.
-        if (!destination) {
-            if (strict) {
-                throw new Error("Not able to fuel a profitable trip");
-            } else {
-                return;
-            }
+        if (!location) {
+            return false;
         }
 
-        /**
-         * At this point the destination is set the trip is possible
-         * 
-         * Since any possible trade on another destination is not important,
-         * they can be removed from the trades list to make filling up extra cargo easier
-         */
-        trades = trades.filter((option: ITradeOption) => option.trade.destination.symbol === destination.symbol);
-
-        /**
-         * Setup the cargo list and add the fuel needed for the trip.
-         * This will be filled with the best cargo for trade.
-         * If there is more space left, it will take the next best cargo and so on.
-         */
-        let cargo: ICargo[] = [
-            {
-                good: "FUEL",
-                quantity: fuelQuantity,
-                totalVolume: fuelVolume
-            }
-        ];
+        this.updateShipData({ ...this._ship, location: symbol, x: location.x, y: location.y });
 
-        // Start keeping track of the remaining cargo space
-        let remainingSpace = Mentat.calculateRemainingSpaceAfterRefuel(this._ship, fuelQuantity);
+        return true;
+    }
 
-        // Loop through valid trades and fill up remaining cargo space
-        for (let i = 0; i < trades.length; i++) {
-            // Check for remaining space and stop trying to fill cargo if none left
-            if (remainingSpace <= 0) {
-                break;
+    /**
+     * Plots the most profitable trade route from the ship's location.
+     * 
+     * Runs plan() over the navigator's locations, ship and cached trade options.
+     * See plan() for the details and the parameters.
+     * 
+     * The diagnostics of the call are kept in the navigator's diagnostics.
+     * 
+     * @param params INavigationParameters
+     * @param strict boolean Default false. Throws NavigationErrors instead of void returns;
+     * @returns ITradeRoute     See the ITradeRoute interface
+     */
+    public navigate(params: INavigationParameters = { range: 0, fuelMargin: 5 }, strict: boolean = false): ITradeRoute {
+        try {
+            const result: IPlanResult = plan(this.snapshot, params, strict);
+
+            this._diagnostics = result.diagnostics;
+            return result.route;
+        } catch (error) {
+            if (error instanceof NavigationError) {
+                this._diagnostics = error.diagnostics;
             }
 
-            let trade: ITrade = trades[i].trade;
-            let goodQuantity = Mentat.calculateGoodQuantity(remainingSpace, trade.localGood.volumePerUnit);
+            throw error;
+        }
+    }
 
-            // Check if the required good is a available in the quantity needed and set to max
-            if (goodQuantity > trade.localGood.quantityAvailable) {
-                goodQuantity = trade.localGood.quantityAvailable
+    /**
+     * Plots the best trade routes from the ship's location, to distinct destinations.
+     * 
+     * Runs planAlternatives() over the navigator's locations, ship and cached trade options.
+     * See planAlternatives() for the details and the parameters.
+     * 
+     * The diagnostics of the call are kept in the navigator's diagnostics.
+     * 
+     * @param params IAlternativesParameters
+     * @param strict boolean Default false. Throws NavigationErrors instead of empty returns;
+     * @returns ITradeRoute[]   The routes, best first
+     */
+    public navigateAlternatives(params: IAlternativesParameters = { limit: 3, range: 0, fuelMargin: 5 }, strict: boolean = false): ITradeRoute[] {
+        try {
+            const result: IAlternativesResult = planAlternatives(this.snapshot, params, strict);
+
+            this._diagnostics = result.diagnostics;
+            return result.routes;
+        } catch (error) {
+            if (error instanceof NavigationError) {
+                this._diagnostics = error.diagnostics;
             }
 
-            let goodVolume = Mentat.calculateGoodVolume(goodQuantity, trade.localGood);
+            throw error;
+        }
+    }
 
-            cargo.push({
-                good: trade.localGood.symbol,
-                quantity: goodQuantity,
-                totalVolume: goodVolume
-            });
+    /**
+     * Plots the most profitable chain of trades from the ship's location, `hops` legs long.
+     * 
+     * Runs planRoute() over the navigator's locations and ship.
+     * See planRoute() for the details and the parameters.
+     * 
+     * @param params IRoutePlanParameters
+     * @param strict boolean Default false. Throws errors instead of void returns;
+     * @returns IRoutePlan     { legs: ITradeLeg[], profit: number }
+     */
+    public planRoute(params: IRoutePlanParameters = { hops: 2 }, strict: boolean = false): IRoutePlan {
+        try {
+            return planRoute(this.snapshot, params, strict);
+        } catch (error) {
+            if (error instanceof NavigationError) {
+                this._diagnostics = error.diagnostics;
+            }
 
-            // Adjust remaining space and if there is more space left buy next best Good for destination if exists
-            remainingSpace -= goodVolume;
+            throw error;
         }
-            
-        // Finally, return the object containing the destination symbol and the cargo-to-buy for trading
-        return { destination: destination.symbol, cargo };
+    }
+
+    /**
+     * Finds the most profitable closed loops of trades between the navigator's locations.
+     * 
+     * Runs findTradeLoops() over the navigator's locations and ship.
+     * See findTradeLoops() for the details and the parameters.
+     * 
+     * @param params ITradeLoopParameters
+     * @returns ITradeLoop[]   The profitable loops, best first
+     */
+    public findTradeLoops(params: ITradeLoopParameters = { stops: 3 }): ITradeLoop[] {
+        return findTradeLoops(this.snapshot, params);
     }
 
     /**
      * The foundation of the algorithm.
      * 
      * This will provide all available trades from the ship's location
-     * sorted by profit per distance unit.
+     * ranked by the navigator's scorer (profit per distance unit by default).
      * 
      * Runs on the class's updates (location or ship) and on initialization to save up time.
      * 
      * @returns ITradeOption[]
      */
     private sortTradeOptions(): void {
-        let trades: { trade: ITrade, profitPerDU: number }[] = [];
-
-        // Validate that current location has a marketplace and can trade
-        if (!this._currentLocation.marketplace || !this._currentLocation.marketplace.length) {
-            return;
-        }
-
-        // Loop through locations
-        for (let i = 0; i < this._locations.length; i++) {
-            if (this._locations[i].symbol === this._currentLocation.symbol) {
-                continue;
-            }
-
-            // Set marketplace if it exists in location
-            let marketplace: IGood[];
-            if (this._locations[i].marketplace && this._locations[i].marketplace.length) {
-                marketplace = this._locations[i].marketplace;
-            } else {
-                continue;
-            }
-
-            // Loop through goods in marketplace
-            for (let j = 0; j < marketplace.length; j++) {
-                let destinationGood: IGood = marketplace[j];
-
-                // Get local good to check if destination good exists on ship's location market
-                let localGood: IGood;
-                for (let k = 0; k < this._currentLocation.marketplace.length; k++) {
-                    if (this._currentLocation.marketplace[k].symbol === destinationGood.symbol) {
-                        localGood = this._currentLocation.marketplace[k];
-                        break;
-                    }
-                }
-
-                // Check if good exists in local market and has at least 1 quantity available
-                if (localGood && localGood.quantityAvailable > 0) {
-                    // Calculate Profit per Distance Unit and push to trades pool
-                    let destination: ILocation = this._locations[i];
-
-                    let profitPerDU: number = Mentat.calculateProfitPerDU(
-                        destinationGood,                // aGood
-                        localGood,                      // bGood
-                        this._ship,                     // ship
-                        this.currentLocation,           // location
-                        destination,                    // destination
-                        this.getCurrentFuelUnitCost()   // fuelUnitCost
-                    );
-
-                    // Set only profitable trades
-                    if (profitPerDU > 0) {
-                        trades.push({
-                            trade: { destination, localGood, destinationGood },
-                            profitPerDU
-                        });
-                    }   
-                } else {
-                    continue;
-                }
-            }
-        }
-
-        this._tradeOptions = Mentat.sortByKey(trades, "profitPerDU");
+        this._tradeOptions = listTradeOptions({ locations: this._locations, ship: this._ship }, this._scorer);
 
         // For debuging - TODO: Move functionality to tests
         this.logTradeOptions();
     }
 
+    /**
+     * Replaces the trade options to a single destination and ranks them again with the rest.
+     * 
+     * @param symbol string     The destination's symbol
+     */
+    private sortDestinationTradeOptions(symbol: string): void {
+        const tradeOptions: ITradeOption[] = this._tradeOptions
+            .filter((option: ITradeOption) => option.trade.destination.symbol !== symbol)
+            .concat(listDestinationTradeOptions({ locations: this._locations, ship: this._ship }, symbol, this._scorer));
+
+        this._tradeOptions = Mentat.sortByKey(tradeOptions, "score");
+    }
+
     /**
      * 
      */
@@ -366,13 +329,7 @@ export class Navigator {
      * @returns ILocation
      */
     private getCurrentLocation(): ILocation {
-        for (let i = 0; i < this._locations.length; i++) {
-            if (this._ship.location === this._locations[i].symbol) {
-                return this._locations[i];
-            }
-        }
-
-        return null;
+        return this._locationIndex[this._ship.location] || null;
     }
 
     /**
@@ -380,13 +337,9 @@ export class Navigator {
      * @returns IGood[]
      */
     private getCurrentMarketplace(): IGood[] {
-        for (let i = 0; i < this._locations.length; i++) {
-            if (this._ship.location === this._locations[i].symbol) {
-                return this._locations[i].marketplace;
-            }
-        }
+        const location: ILocation = this.getCurrentLocation();
 
-        return null;
+        return location ? location.marketplace : null;
     }
 
     /**
@@ -394,14 +347,7 @@ export class Navigator {
      * @returns number
      */
     private getCurrentFuelUnitCost(): number {
-        const marketplace: IGood[] = this.getCurrentMarketplace();
-        for (let i = 0; i < marketplace.length; i++) {
-            if (marketplace[i].symbol === "FUEL") {
-                return marketplace[i].purchasePricePerUnit;
-            }
-        }
-
-        return null;
+        return getFuelUnitCost(this.getCurrentMarketplace());
     }
 
 
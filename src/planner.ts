@@ -0,0 +1,1692 @@
+import { ILocation, ICargo, IShip, ISale, ITradeRoute, ITrade, IGood, ITradeOption, INavigationParameters, IRoutePlanParameters, IRoutePlan, ITradeLeg, IRouteSegment, IWarpGate, ITradeScorer, IGoodForecast, ITradeCandidate, INavigationDiagnostics, INavigationSnapshot, IPlanResult, IPriceImpactModel, IAlternativesParameters, IAlternativesResult, IArbitrage, IArbitrageMatrix, ITradeLoop, ITradeLoopLeg, ITradeLoopParameters, IRefuelStop } from './interfaces/index.js';
+import { Mentat } from './mentat.js';
+import { TradeRanking, RejectionReason, StaleMarketPolicy, FuelPurpose } from './enums/index.js';
+import { NavigationError, NoMarketError, NoProfitableTradesError, OutOfRangeError, StaleMarketError, CannotFuelError, InsufficientCreditsError, ConstraintError } from './errors/index.js';
+import { ProfitPerDistanceScorer, ProfitPerTimeScorer } from './scorers/index.js';
+
+/**
+ * The planning functions behind the Navigator.
+ * 
+ * They take a snapshot of the locations and the ship and return a fresh result every time.
+ * Nothing they are given is modified and they keep no state, so they are safe to call
+ * repeatedly or concurrently for several ships.
+ * 
+ * IMPORTANT
+ *  - Just like the Navigator, these functions should not contain any calculations at all.
+ *      ALL calculations should be handled by the Mentat.
+ */
+
+/**
+ * Plots the most profitable trade route
+ * 
+ * Pure function. It does not modify the snapshot, so it is safe to call repeatedly
+ * or concurrently for several ships.
+ * 
+ * - Starts with the list of all possible trades from the current location
+ *      to the provided destinations.
+ * 
+ * - Then, if range is provided, filters those destinations
+ *      to only those in range.
+ * 
+ * - Verifies any profitable trades and sets the best trade's location as the
+ *      route's destination IF fueling for trip is possible.
+ * 
+ * - Sets the required FUEL in the response to be bought. The final amount of FUEL
+ *      is calculated based on current excess of FUEL in cargo so it will not buy more
+ *      than required for the trip. Unless the fuelMargin is set, in which case it will
+ *      include that margin.
+ * 
+ * - With the destination set, it fills cargo with the mix of goods that makes the most profit
+ *      within the space, the available quantities and the credits.
+ * 
+ * - Forecasts the distance, the cost of the FUEL and the cost, revenue and profit of each good,
+ *      as well as the net profit and the return on investment of the whole trip.
+ * 
+ * - Goods already in the hold (FUEL excluded) are inventory to sell. Each one is sold
+ *      where it pays more, before leaving or at the destination, and the route's sales list
+ *      where to sell them. Goods sold before leaving make room and credits for the new cargo.
+ *      With goods in the hold, every destination that can be fueled is planned and the one
+ *      with the most net profit, sales included, is picked.
+ * 
+ * Theoretically, at destination, after selling the cargo in the result object,
+ * the ship's cargo should be completely empty as all the fuel will be spent and all goods will be sold.
+ * 
+ * If one of the profitable trades happens to be FUEL, it adds an extra entry with FUEL, labeled FuelPurpose.TRADE.
+ * Like any other good, it is forecast as sold at the destination, and its profit is part of the net profit.
+ * FUEL to keep for later legs is the reserve or the stockpile instead.
+ * 
+ * NOTES
+ *  - If there is space left and no more available trades on destination,
+ *      the remaining space will be empty.
+ * 
+ *  - Destinations in other systems are only considered if they can be reached
+ *      through the warp gates of the provided locations. All the FUEL for the path is bought
+ *      before leaving and the route's waypoints list every segment and the FUEL it needs.
+ * 
+ * PARAMETERS
+ *  - range: Number. Default 0
+ *      The range in units to limit the destinations.
+ *
+ *  - fuelMargin: Number. Default 5
+ *      The error margin in % (ex. 5 is 5%) for fuel.
+ *      It will include extra FUEL based on this parameter.
+ * 
+ *  - rankBy: TradeRanking. Default none
+ *      The metric used to rank trades. TradeRanking.PROFIT_PER_SECOND ranks them by
+ *      profit per second of flight, based on the ship's speed and the docking time.
+ *      Shorthand for the ProfitPerDistanceScorer and ProfitPerTimeScorer scorers.
+ * 
+ *  - scorer: ITradeScorer. Default none
+ *      Ranks the trades for this call only. Takes precedence over rankBy.
+ *      Without a scorer or rankBy, trades are ranked by the snapshot's scorer.
+ * 
+ *  - credits: Number. Default none
+ *      The credits available for the FUEL and the goods. Destinations whose FUEL can not be afforded
+ *      are skipped and goods are scaled down to the remaining credits. Without credits there is no limit.
+ * 
+ *  - reserve: Number. Default 0
+ *      The credits that should be left unspent.
+ * 
+ *  - greedyCargo: Boolean. Default false
+ *      By default the cargo is filled with the mix of goods that makes the most profit.
+ *      If true, it takes as much as possible of each good, in the order of the trades.
+ * 
+ *  - maxMarketAge: Number. Default none
+ *      The age in seconds after which market data is stale, based on the locations' observedAt.
+ *      A trade is as old as the oldest of its two markets. Markets without observedAt are never stale.
+ * 
+ *  - staleMarkets: StaleMarketPolicy. Default StaleMarketPolicy.EXCLUDE
+ *      Trades on stale data are excluded. With StaleMarketPolicy.DOWN_WEIGHT they are kept,
+ *      but their score shrinks the older their data gets.
+ * 
+ *  - departure: String. Default now
+ *      The time of departure (ISO 8601). The arrival and the age of the market data are based on it.
+ * 
+ *  - priceImpact: IPriceImpactModel. Default none
+ *      Large purchases raise the price and large sales lower it (see Mentat.calculatePriceImpact).
+ *      The cargo is sized so the moves do not erase the margin, and the forecast, the FUEL cost
+ *      and the sales are priced at the average prices. Without it, every unit trades at the listed prices.
+ * 
+ *  - maxRefuelStops: Number. Default 2
+ *      When the FUEL for a trip can not be bought or carried at the location, the trip is planned
+ *      through up to this many refuel stops at locations that sell FUEL (see planRefuelStops).
+ *      The route's refuelStops list them, and their FUEL, but the reserve, is part of the fuelCost. 0 never stops.
+ *      All the FUEL bought at the stops is part of the spend.
+ * 
+ *  - fuelReserve: Number. Default 0
+ *      The FUEL to have left in the hold at arrival. It is bought on top of the FUEL for the trip,
+ *      as a FuelPurpose.RESERVE entry, and destinations that can not be fueled with it are skipped.
+ *      With refuel stops, it is bought at the last stop and listed there as a FuelPurpose.RESERVE stop.
+ * 
+ *  - fuelStockpile: IFuelStockpile. Default none
+ *      When the location sells FUEL at least discount % below the average price of its system,
+ *      more FUEL is bought to arrive with the stockpile's quantity, in the space and the credits
+ *      the goods left. It is added to the reserve.
+ * 
+ *      The reserve and the stockpile are part of the spend, but not of the fuelCost and the net profit.
+ *      The FUEL of the trip is labeled FuelPurpose.TRIP, and the FUEL bought as a trade FuelPurpose.TRADE.
+ * 
+ *  - allowedGoods, deniedGoods: String[]. Default none
+ *      The goods that may, or may not, be bought. The goods in the hold are sold either way.
+ * 
+ *  - allowedLocations, deniedLocations, deniedLocationTypes: String[]. Default none
+ *      The locations that may, or may not, be destinations and refuel stops, by symbol or by type.
+ *      Denied locations are not flown through either, so paths through denied warp gates are rejected.
+ * 
+ *  - destination: String. Default none
+ *      The location the route has to end at. Trades to other destinations are rejected,
+ *      and the ship flies there even if it can not trade anything on the way.
+ * 
+ * DIAGNOSTICS
+ *  - Every call lists all candidate trades in the result's diagnostics, in order of rank,
+ *      with the reason each one was rejected (null for the trades loaded in the cargo).
+ *      In strict mode, the thrown NavigationError carries the same diagnostics.
+ * 
+ * @param snapshot INavigationSnapshot   The locations and the ship. Optionally the trade options already listed for them
+ * @param params INavigationParameters
+ * @param strict boolean Default false. Throws NavigationErrors instead of returning no route;
+ * @returns IPlanResult     { route: ITradeRoute, diagnostics: INavigationDiagnostics }
+ */
+export function plan(snapshot: INavigationSnapshot, params: INavigationParameters = { range: 0, fuelMargin: 5 }, strict: boolean = false): IPlanResult {
+    const result: IAlternativesResult = planDestinations(snapshot, { ...params, limit: 1 }, strict, false);
+
+    return { route: result.routes[0], diagnostics: result.diagnostics };
+}
+
+/**
+ * Plots the best trade routes to distinct destinations, instead of a single one.
+ * 
+ * Every route is planned exactly as in plan(), with its own cargo, FUEL and forecast,
+ * so a bot or a human can pick another one when the best destination is not an option.
+ * The first route is the one plan() returns, if it makes a net profit.
+ * 
+ * - Routes come in the order of rank of their destinations, the first ones that can be fueled.
+ *      With goods in the hold, they come in the order of net profit, sales included.
+ * 
+ * - Unlike plan(), routes that do not make a net profit are dropped, unless they fly to the required destination.
+ * 
+ * PARAMETERS
+ *  - limit: Number. Default 3
+ *      The maximum number of routes.
+ * 
+ *  - range, fuelMargin, rankBy, scorer, credits, reserve, greedyCargo, maxMarketAge, staleMarkets,
+ *      departure, priceImpact, maxRefuelStops, fuelReserve, fuelStockpile and the constraints work exactly as in plan().
+ *      The credits are the same for every route, since only one of them can be flown.
+ * 
+ * DIAGNOSTICS
+ *  - Trades to the destinations of the routes are only rejected when they are not loaded.
+ * 
+ * @param snapshot INavigationSnapshot   The locations and the ship. Optionally the trade options already listed for them
+ * @param params IAlternativesParameters
+ * @param strict boolean Default false. Throws NavigationErrors instead of returning no routes;
+ * @returns IAlternativesResult     { routes: ITradeRoute[], diagnostics: INavigationDiagnostics }
+ */
+export function planAlternatives(snapshot: INavigationSnapshot, params: IAlternativesParameters = { limit: 3, range: 0, fuelMargin: 5 }, strict: boolean = false): IAlternativesResult {
+    return planDestinations(snapshot, params, strict, true);
+}
+
+/**
+ * Plots the routes of plan() and planAlternatives().
+ * 
+ * @param snapshot INavigationSnapshot
+ * @param params IAlternativesParameters
+ * @param strict boolean
+ * @param profitable boolean    Drops the routes that do not make a net profit, unless they fly to the required destination
+ * @returns IAlternativesResult
+ */
+function planDestinations(snapshot: INavigationSnapshot, params: IAlternativesParameters, strict: boolean, profitable: boolean): IAlternativesResult {
+    const ship: IShip = snapshot.ship;
+    // Destinations and waypoints are looked up over and over
+    const index: { [symbol: string]: ILocation } = indexBySymbol(snapshot.locations);
+    const location: ILocation = index[ship.location] || null;
+
+    // Check if the ship's location can trade
+    if (!location || !location.marketplace || !location.marketplace.length) {
+        return fail(new NoMarketError(undefined, { candidates: [], error: null }), strict);
+    }
+
+    const scorer: ITradeScorer = getScorer(params);
+
+    // Rank trades with the scorer of the parameters instead of the snapshot's.
+    // The snapshot's trades are copied either way, they should never be modified.
+    let trades: ITradeOption[] = snapshot.tradeOptions || listTradeOptions(snapshot);
+    trades = scorer ? scoreTradeOptions(trades, ship, scorer) : trades.slice();
+    trades = ageTradeOptions(trades, params);
+
+    // The locations the ship may fly through
+    const open: ILocation[] = getOpenLocations(snapshot.locations, location, params);
+
+    // The goods already in the hold and the destinations that buy them
+    const holdings: ICargo[] = getHoldings(ship);
+    const markets: string[] = getSaleDestinations(open, ship, location, holdings, params);
+
+    // Every trade is a candidate until it is rejected
+    const candidates: ITradeCandidate[] = trades.map((option: ITradeOption) => ({
+        destination: option.trade.destination.symbol,
+        good: option.trade.localGood.symbol,
+        score: option.score,
+        rejection: null
+    }));
+    const diagnostics: INavigationDiagnostics = { candidates, error: null };
+    const reject = (option: ITradeOption, reason: RejectionReason): void => {
+        candidates[trades.indexOf(option)].rejection = reason;
+    };
+
+    // Check if any profitable trades where found, or any goods in the hold can be sold
+    if (!trades.length && !markets.length) {
+        return fail(new NoProfitableTradesError(undefined, diagnostics), strict);
+    }
+
+    // Reject trades of denied goods, to or through denied locations, or to another destination than the required one
+    trades.forEach((option: ITradeOption) => {
+        const rejection: RejectionReason = getConstraintRejection(option, index, params);
+
+        if (rejection) {
+            reject(option, rejection);
+        }
+    });
+
+    // Check if any profitable trades where found within the constraints
+    if (!candidates.filter((c: ITradeCandidate) => !c.rejection).length && !markets.length) {
+        return fail(new ConstraintError(undefined, diagnostics), strict);
+    }
+
+    // Reject trades out of range
+    if (params.range) {
+        trades.forEach((option: ITradeOption) => {
+            if (!Mentat.validatePathRange(params.range, option.path)) {
+                reject(option, RejectionReason.OUT_OF_RANGE);
+            }
+        });
+
+        // Check if any profitable trades where found in specified range
+        if (!candidates.filter((c: ITradeCandidate) => !c.rejection).length && !markets.length) {
+            return fail(new OutOfRangeError(undefined, diagnostics), strict);
+        }
+    }
+
+    // Reject trades on stale market data, unless they are only weighed down
+    if (params.maxMarketAge && params.staleMarkets !== StaleMarketPolicy.DOWN_WEIGHT) {
+        trades.forEach((option: ITradeOption, i: number) => {
+            if (!candidates[i].rejection && !Mentat.validateMarketAge(params.maxMarketAge, option.dataAge)) {
+                reject(option, RejectionReason.STALE_MARKET);
+            }
+        });
+
+        // Check if any profitable trades where found with fresh market data
+        if (!candidates.filter((c: ITradeCandidate) => !c.rejection).length && !markets.length) {
+            return fail(new StaleMarketError(undefined, diagnostics), strict);
+        }
+    }
+
+    /**
+     *  At this point all available trades are sanitized
+     *      - They have available quantities for purchase
+     *      - They are profitable
+     *      - They are in range if specified
+     *      - Their market data is recent enough if specified
+     */
+
+    const budget: number = Mentat.calculateBudget(params.credits, params.reserve);
+
+    // Destinations in order of rank, then the destinations that only buy the goods in the hold
+    const destinations: string[] = [];
+    trades.forEach((option: ITradeOption, i: number) => {
+        if (!candidates[i].rejection && destinations.indexOf(option.trade.destination.symbol) === -1) {
+            destinations.push(option.trade.destination.symbol);
+        }
+    });
+    markets.forEach((symbol: string) => {
+        if (destinations.indexOf(symbol) === -1) {
+            destinations.push(symbol);
+        }
+    });
+
+    const limit: number = params.limit || 3;
+    let routes: ITradeRoute[] = [];
+    const rejections: RejectionReason[] = [];
+
+    /**
+     * Get the first destinations that can be fueled, up to the limit.
+     * 
+     * With goods in the hold, every destination that can be fueled is planned instead
+     * and the ones with the most net profit, sales included, are picked.
+     */
+    for (let i = 0; i < destinations.length; i++) {
+        let symbol: string = destinations[i];
+        let options: ITradeOption[] = trades.filter((option: ITradeOption, j: number) => !candidates[j].rejection && option.trade.destination.symbol === symbol);
+        let destination: ILocation = index[symbol];
+        let path: IRouteSegment[] = options.length ? options[0].path : plotPath(open, ship, location, destination);
+
+        let trip: { route: ITradeRoute, rejection: RejectionReason } = planTrip(open, ship, location, destination, path, options, holdings, params, budget);
+
+        if (trip.rejection) {
+            options.forEach((option: ITradeOption) => reject(option, trip.rejection));
+            rejections.push(trip.rejection);
+            continue;
+        }
+
+        // The FUEL and the prices can eat the margin of the trades. Only the required destination is flown at a loss
+        if (profitable && trip.route.netProfit <= 0 && !params.destination) {
+            options.forEach((option: ITradeOption) => reject(option, RejectionReason.NOT_PROFITABLE));
+            rejections.push(RejectionReason.NOT_PROFITABLE);
+            continue;
+        }
+
+        routes.push(trip.route);
+
+        if (!holdings.length && routes.length >= limit) {
+            break;
+        }
+    }
+
+    if (holdings.length) {
+        routes = Mentat.sortByKey(routes, "netProfit").slice(0, limit);
+    }
+
+    // Check if a destination was found that can be fueled.
+    if (!routes.length) {
+        // No destination failed on the FUEL itself: the credits, or the profit, are to blame
+        const credits: RejectionReason[] = [RejectionReason.CANNOT_AFFORD_FUEL, RejectionReason.NOT_PROFITABLE];
+
+        if (rejections.length && rejections.every((rejection: RejectionReason) => credits.indexOf(rejection) !== -1)) {
+            return rejections.indexOf(RejectionReason.CANNOT_AFFORD_FUEL) !== -1
+                ? fail(new InsufficientCreditsError(undefined, diagnostics), strict)
+                : fail(new NoProfitableTradesError(undefined, diagnostics), strict);
+        }
+
+        return fail(new CannotFuelError(undefined, diagnostics), strict);
+    }
+
+    /**
+     * At this point the destinations are set and the trips are possible
+     * 
+     * Any possible trade on another destination is not important anymore
+     */
+    trades.forEach((option: ITradeOption, i: number) => {
+        if (candidates[i].rejection) {
+            return;
+        }
+
+        const route: ITradeRoute = routes.filter((r: ITradeRoute) => r.destination === option.trade.destination.symbol)[0];
+
+        if (!route) {
+            reject(option, RejectionReason.OTHER_DESTINATION);
+        } else if (!route.goods.filter((g: IGoodForecast) => g.good === candidates[i].good).length) {
+            // Trades of the destination that didn't make it to the cargo
+            reject(option, RejectionReason.NOT_LOADED);
+        }
+    });
+
+    return { routes, diagnostics };
+}
+
+
+/**
+ * Plots the most profitable chain of trades, `hops` legs long.
+ * 
+ * - Every leg is planned the same way as plan(). FUEL for the leg is bought first
+ *      and the best goods for the leg's destination fill up the remaining cargo space.
+ * 
+ * - The destination of each leg becomes the marketplace the next leg buys from.
+ *      The ship is expected to arrive there with all goods sold and only the leftover FUEL in cargo.
+ * 
+ * - From every stop, only the best `breadth` destinations that can be fueled are explored.
+ *      The chains are ranked by their total projected profit and not by the profit of their first trade.
+ * 
+ * NOTES
+ *  - Marketplaces are not adjusted between legs. The goods bought on a leg
+ *      are expected to still be available at the same prices when the ship gets there.
+ * 
+ *  - If no profitable trade exists from a stop, the chain ends there
+ *      and the plan will contain fewer legs than requested.
+ * 
+ * PARAMETERS
+ *  - hops: Number. Default 2
+ *      The number of legs in the route.
+ * 
+ *  - breadth: Number. Default 3
+ *      The number of destinations explored from every stop.
+ * 
+ *  - range, fuelMargin, rankBy, scorer, credits, reserve, greedyCargo, maxMarketAge, staleMarkets,
+ *      departure and priceImpact work exactly as in plan().
+ *      Range is checked from the start of every leg. Refuel stops, reserves and stockpiles are not planned.
+ *      The goods and locations constraints apply to every leg, and only the last one has to reach the destination.
+ * 
+ * DIAGNOSTICS
+ *  - In strict mode, the thrown NavigationError lists the trades of the first leg as candidates,
+ *      with the reason each one was rejected, as plan() does. Trades within the limits are NOT_PROFITABLE.
+ * 
+ * @param snapshot INavigationSnapshot
+ * @param params IRoutePlanParameters
+ * @param strict boolean Default false. Throws errors instead of void returns;
+ * @returns IRoutePlan     { legs: ITradeLeg[], profit: number }
+ */
+export function planRoute(snapshot: INavigationSnapshot, params: IRoutePlanParameters = { hops: 2 }, strict: boolean = false): IRoutePlan {
+    const location: ILocation = findLocation(snapshot.locations, snapshot.ship.location);
+    const scorer: ITradeScorer = getScorer(params) || snapshot.scorer || ProfitPerDistanceScorer;
+    const route: IRoutePlan = location ? plotLegs(snapshot.locations, snapshot.ship, location, params.hops, params, scorer) : { legs: [], profit: 0 };
+
+    // Check if any profitable legs where found
+    if (!route.legs.length) {
+        if (strict) {
+            const error: NavigationError = new NoProfitableTradesError("No profitable trade route found from this ship's position", getRouteDiagnostics(snapshot, location, params, scorer));
+            error.diagnostics.error = error.code;
+            throw error;
+        } else {
+            return;
+        }
+    }
+
+    return route;
+}
+
+/**
+ * Lists the trades of the first leg of a route as candidates, with the reason each one was rejected.
+ * 
+ * @param snapshot INavigationSnapshot
+ * @param location ILocation    The ship's location. Null if it is not in the snapshot
+ * @param params IRoutePlanParameters
+ * @param scorer ITradeScorer
+ * @returns INavigationDiagnostics
+ */
+function getRouteDiagnostics(snapshot: INavigationSnapshot, location: ILocation, params: IRoutePlanParameters, scorer: ITradeScorer): INavigationDiagnostics {
+    const trades: ITradeOption[] = location ? ageTradeOptions(getTradeOptions(snapshot.locations, snapshot.ship, location, scorer), params) : [];
+    // Only the last leg has to reach the required destination
+    const constraints: IRoutePlanParameters = params.hops > 1 ? { ...params, destination: undefined } : params;
+    const index: { [symbol: string]: ILocation } = indexBySymbol(snapshot.locations);
+    const stale: boolean = !!params.maxMarketAge && params.staleMarkets !== StaleMarketPolicy.DOWN_WEIGHT;
+
+    const candidates: ITradeCandidate[] = trades.map((option: ITradeOption) => {
+        let rejection: RejectionReason = getConstraintRejection(option, index, constraints);
+
+        if (!rejection && params.range && !Mentat.validatePathRange(params.range, option.path)) {
+            rejection = RejectionReason.OUT_OF_RANGE;
+        } else if (!rejection && stale && !Mentat.validateMarketAge(params.maxMarketAge, option.dataAge)) {
+            rejection = RejectionReason.STALE_MARKET;
+        }
+
+        return {
+            destination: option.trade.destination.symbol,
+            good: option.trade.localGood.symbol,
+            score: option.score,
+            rejection: rejection || RejectionReason.NOT_PROFITABLE
+        };
+    });
+
+    return { candidates, error: null };
+}
+
+/**
+ * The foundation of the algorithm.
+ * 
+ * Lists all profitable trades from the ship's location, ranked by the scorer.
+ * Navigators list them once, every time their data changes, and pass them to plan() with the snapshot.
+ * 
+ * @param snapshot INavigationSnapshot
+ * @param scorer ITradeScorer  Default the snapshot's scorer, or ProfitPerDistanceScorer
+ * @returns ITradeOption[]
+ */
+export function listTradeOptions(snapshot: INavigationSnapshot, scorer: ITradeScorer = snapshot.scorer || ProfitPerDistanceScorer): ITradeOption[] {
+    const location: ILocation = findLocation(snapshot.locations, snapshot.ship.location);
+
+    return location ? getTradeOptions(snapshot.locations, snapshot.ship, location, scorer) : [];
+}
+
+/**
+ * Lists the profitable trades from the ship's location to a single destination, ranked by the scorer.
+ * 
+ * The trades to the other destinations do not depend on the destination's marketplace,
+ * so navigators only list these again when a single marketplace changes.
+ * 
+ * @param snapshot INavigationSnapshot
+ * @param symbol string        The destination's symbol
+ * @param scorer ITradeScorer  Default the snapshot's scorer, or ProfitPerDistanceScorer
+ * @returns ITradeOption[]
+ */
+export function listDestinationTradeOptions(snapshot: INavigationSnapshot, symbol: string, scorer: ITradeScorer = snapshot.scorer || ProfitPerDistanceScorer): ITradeOption[] {
+    const location: ILocation = findLocation(snapshot.locations, snapshot.ship.location);
+    const destination: ILocation = findLocation(snapshot.locations, symbol);
+
+    if (!location || !destination || !location.marketplace || !location.marketplace.length) {
+        return [];
+    }
+
+    const trades: ITradeOption[] = getDestinationTradeOptions(
+        snapshot.locations,
+        snapshot.ship,
+        location,
+        destination,
+        indexBySymbol(location.marketplace),
+        getFuelUnitCost(location.marketplace)
+    );
+
+    return scoreTradeOptions(trades, snapshot.ship, scorer);
+}
+
+/**
+ * Finds the most profitable closed loops of trades between the locations, wherever the ship is.
+ * A ship parked on a loop can fly it over and over without planning again at every stop.
+ * 
+ * - Every leg carries the good with the most profit per volume between its two locations
+ *      (see Mentat.calculateArbitrageMatrix), filling the ship's available space left after the FUEL,
+ *      within the quantity the market has available. Legs without a profitable good in stock are not flown.
+ * 
+ * - Legs start at locations that have the FUEL for them, and every location of a loop is visited once.
+ *      The loop A→B→A is the shortest.
+ * 
+ * PARAMETERS
+ *  - stops: Number. Default 3
+ *      The maximum number of locations in a loop.
+ * 
+ *  - limit: Number. Default 5
+ *      The maximum number of loops returned.
+ * 
+ *  - range: Number. Default none
+ *      Limits every leg to the given distance, as in plan().
+ * 
+ *  - rankBy: TradeRanking. Default TradeRanking.PROFIT_PER_DU
+ *      Ranks the loops by profit per distance or by profit per second of flight.
+ * 
+ * NOTES
+ *  - Marketplaces are not adjusted between legs, nor between rounds of the loop.
+ * 
+ * @param snapshot INavigationSnapshot
+ * @param params ITradeLoopParameters
+ * @returns ITradeLoop[]   The profitable loops, best first
+ */
+export function findTradeLoops(snapshot: INavigationSnapshot, params: ITradeLoopParameters = { stops: 3 }): ITradeLoop[] {
+    const markets: ILocation[] = snapshot.locations.filter((location: ILocation) => location.marketplace && location.marketplace.length);
+    const matrix: IArbitrageMatrix = Mentat.calculateArbitrageMatrix(markets);
+    const legs: { [origin: string]: { [destination: string]: ITradeLoopLeg } } = {};
+    const loops: ITradeLoop[] = [];
+
+    for (let i = 0; i < markets.length; i++) {
+        legs[markets[i].symbol] = {};
+
+        for (let j = 0; j < markets.length; j++) {
+            if (i !== j) {
+                legs[markets[i].symbol][markets[j].symbol] = getLoopLeg(snapshot.locations, snapshot.ship, markets[i], markets[j], matrix[markets[i].symbol][markets[j].symbol], params);
+            }
+        }
+    }
+
+    // Every loop is found once, starting from its first location in the list
+    for (let i = 0; i < markets.length; i++) {
+        extendLoops(markets, legs, i, [markets[i].symbol], [], params.stops || 3, loops);
+    }
+
+    return Mentat.sortByKey(loops.filter((loop: ITradeLoop) => loop.profit > 0), params.rankBy || TradeRanking.PROFIT_PER_DU).slice(0, params.limit || 5);
+}
+
+/**
+ * Lists all profitable trades from the given location ranked by the scorer.
+ * 
+ * @param locations ILocation[]
+ * @param ship IShip
+ * @param location ILocation   The location the goods are bought from
+ * @param scorer ITradeScorer
+ * @returns ITradeOption[]
+ */
+function getTradeOptions(locations: ILocation[], ship: IShip, location: ILocation, scorer: ITradeScorer): ITradeOption[] {
+    let trades: ITradeOption[] = [];
+
+    // Validate that the location has a marketplace and can trade
+    if (!location.marketplace || !location.marketplace.length) {
+        return trades;
+    }
+
+    const fuelUnitCost: number = getFuelUnitCost(location.marketplace);
+    const localGoods: { [symbol: string]: IGood } = indexBySymbol(location.marketplace);
+
+    // Loop through locations
+    for (let i = 0; i < locations.length; i++) {
+        trades = trades.concat(getDestinationTradeOptions(locations, ship, location, locations[i], localGoods, fuelUnitCost));
+    }
+
+    return scoreTradeOptions(trades, ship, scorer);
+}
+
+/**
+ * Lists the profitable trades from the given location to the destination, unscored.
+ * 
+ * @param locations ILocation[]
+ * @param ship IShip
+ * @param location ILocation   The location the goods are bought from
+ * @param destination ILocation
+ * @param localGoods { [symbol: string]: IGood }   The location's marketplace, indexed by symbol
+ * @param fuelUnitCost number
+ * @returns ITradeOption[]
+ */
+function getDestinationTradeOptions(locations: ILocation[], ship: IShip, location: ILocation, destination: ILocation, localGoods: { [symbol: string]: IGood }, fuelUnitCost: number): ITradeOption[] {
+    const trades: ITradeOption[] = [];
+
+    // Validate that the destination is not the location and has a marketplace
+    if (destination.symbol === location.symbol || !destination.marketplace || !destination.marketplace.length) {
+        return trades;
+    }
+
+    // Plot the path to the destination, through warp gates if it is in another system
+    const path: IRouteSegment[] = plotPath(locations, ship, location, destination);
+    if (!path.length) {
+        return trades;
+    }
+
+    const observedAt: string = Mentat.calculateOldestObservation(location.observedAt, destination.observedAt);
+
+    // Loop through goods in marketplace
+    for (let j = 0; j < destination.marketplace.length; j++) {
+        let destinationGood: IGood = destination.marketplace[j];
+
+        // Get local good to check if destination good exists on the location's market
+        let localGood: IGood = localGoods.hasOwnProperty(destinationGood.symbol) ? localGoods[destinationGood.symbol] : null;
+
+        // Check if good exists in local market and has at least 1 quantity available
+        if (!localGood || localGood.quantityAvailable <= 0) {
+            continue;
+        }
+
+        // Calculate Profit per Distance Unit and push to trades pool
+        let profitPerDU: number = Mentat.calculatePathProfitPerDU(
+            destinationGood,    // aGood
+            localGood,          // bGood
+            ship,               // ship
+            path,               // path
+            fuelUnitCost        // fuelUnitCost
+        );
+
+        // Set only profitable trades
+        if (profitPerDU > 0) {
+            trades.push({
+                trade: { destination, localGood, destinationGood },
+                path,
+                distance: Mentat.calculatePathDistance(path),
+                cost: Mentat.calculatePathCost(localGood, ship, path, fuelUnitCost),
+                profit: Mentat.calculatePathProfit(destinationGood, localGood, ship, path, fuelUnitCost),
+                profitPerDU,
+                flightTime: Mentat.calculatePathFlightTime(ship, path),
+                profitPerSecond: Mentat.calculatePathProfitPerSecond(destinationGood, localGood, ship, path, fuelUnitCost),
+                observedAt,
+                dataAge: Mentat.calculateDataAge(observedAt),
+                score: 0
+            });
+        }
+    }
+
+    return trades;
+}
+
+/**
+ * Recursively plots the most profitable chain of legs from the given location.
+ * 
+ * @param locations ILocation[]
+ * @param ship IShip           The ship as it is expected to be at the location
+ * @param location ILocation
+ * @param hops number          The number of legs left to plot
+ * @param params IRoutePlanParameters
+ * @param scorer ITradeScorer
+ * @returns IRoutePlan
+ */
+function plotLegs(locations: ILocation[], ship: IShip, location: ILocation, hops: number, params: IRoutePlanParameters, scorer: ITradeScorer): IRoutePlan {
+    let best: IRoutePlan = { legs: [], profit: 0 };
+
+    if (hops <= 0) {
+        return best;
+    }
+
+    let trades: ITradeOption[] = ageTradeOptions(getTradeOptions(locations, ship, location, scorer), params);
+    let budget: number = Mentat.calculateBudget(params.credits, params.reserve);
+    let explored: string[] = [];
+
+    // Filter trades outside the constraints. Only the last leg has to reach the required destination
+    const constraints: IRoutePlanParameters = hops > 1 ? { ...params, destination: undefined } : params;
+    const index: { [symbol: string]: ILocation } = indexBySymbol(locations);
+    trades = trades.filter((option: ITradeOption) => !getConstraintRejection(option, index, constraints));
+
+    // Filter trades by range
+    if (params.range) {
+        trades = trades.filter((option: ITradeOption) => Mentat.validatePathRange(params.range, option.path));
+    }
+
+    // Filter trades on stale market data
+    if (params.maxMarketAge && params.staleMarkets !== StaleMarketPolicy.DOWN_WEIGHT) {
+        trades = trades.filter((option: ITradeOption) => Mentat.validateMarketAge(params.maxMarketAge, option.dataAge));
+    }
+
+    for (let i = 0; i < trades.length && explored.length < (params.breadth || 3); i++) {
+        let destination: ILocation = trades[i].trade.destination;
+
+        // Each destination is explored once, with the best goods for it
+        if (explored.indexOf(destination.symbol) !== -1) {
+            continue;
+        }
+
+        let fuelToTravel: number = Mentat.calculatePathFuel(trades[i].path);
+        let fuelQuantity: number = Mentat.calculateFuelQuantity(ship, fuelToTravel, params.fuelMargin);
+        let fuelCost: number = Mentat.calculateFuelToTravelCost(fuelQuantity, getFuelUnitCost(location.marketplace, fuelQuantity, params.priceImpact));
+
+        if (checkRefuel(ship, location.marketplace, fuelQuantity) || fuelCost > budget) {
+            continue;
+        }
+
+        explored.push(destination.symbol);
+
+        let destinationTrades: ITradeOption[] = trades.filter((option: ITradeOption) => option.trade.destination.symbol === destination.symbol);
+        let goods: ICargo[] = labelTradeFuel(loadCargo(destinationTrades, Mentat.calculateRemainingSpaceAfterRefuel(ship, fuelQuantity), Mentat.calculateRemainingCredits(budget, fuelCost), params.greedyCargo, params.priceImpact));
+        let tripFuel: ICargo = {
+            good: "FUEL",
+            quantity: fuelQuantity,
+            totalVolume: Mentat.calculateFuelToTravelVolume(fuelQuantity, ship),
+            purpose: FuelPurpose.TRIP
+        };
+
+        let leg: ITradeLeg = {
+            origin: location.symbol,
+            destination: destination.symbol,
+            cargo: [tripFuel].concat(goods),
+            waypoints: trades[i].path,
+            fuel: fuelToTravel,
+            profit: Mentat.calculateCargoProfit(goods, destinationTrades.map((option: ITradeOption) => option.trade), fuelCost, params.priceImpact, [tripFuel])
+        };
+
+        // The ship arrives with the goods sold and the FUEL for the trip spent
+        let remainingFuel: number = Mentat.calculateRemainingFuel(ship, fuelQuantity, fuelToTravel);
+        let cargo: ICargo[] = [{ good: "FUEL", quantity: remainingFuel, totalVolume: Mentat.calculateFuelToTravelVolume(remainingFuel, ship) }];
+        let arrival: IShip = {
+            ...ship,
+            location: destination.symbol,
+            x: destination.x,
+            y: destination.y,
+            cargo,
+            spaceAvailable: Mentat.calculateSpaceAvailable(ship.maxCargo, cargo)
+        };
+
+        // The next leg can spend the credits earned on this one
+        let next: IRoutePlanParameters = params.credits === undefined ? params : { ...params, credits: Mentat.calculateNextLegCredits(params.credits, leg.profit) };
+        let legs: ITradeLeg[] = [leg].concat(plotLegs(locations, arrival, destination, hops - 1, next, scorer).legs);
+        let profit: number = Mentat.calculateRouteProfit(legs);
+
+        // A chain that stops short of the required destination never gets there
+        if (params.destination && legs[legs.length - 1].destination !== params.destination) {
+            continue;
+        }
+
+        if (profit > best.profit) {
+            best = { legs, profit };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Fills up the given cargo space with the mix of goods that makes the most profit.
+ * 
+ * If greedy, it takes as much as possible of each good instead, in the order of the given trades.
+ * 
+ * @param trades ITradeOption[]    Trades for a single destination
+ * @param space number
+ * @param budget number             Default no limit. The credits that can be spent on goods
+ * @param greedy boolean            Default false
+ * @param model IPriceImpactModel   Default none. No good is bought past the quantity that makes the most profit
+ * @returns ICargo[]
+ */
+function loadCargo(trades: ITradeOption[], space: number, budget: number = Infinity, greedy: boolean = false, model: IPriceImpactModel = null): ICargo[] {
+    let cargo: ICargo[] = [];
+
+    if (!greedy) {
+        const quantities: number[] = Mentat.calculateOptimalCargo(trades.map((option: ITradeOption) => option.trade), space, budget, model);
+
+        for (let i = 0; i < trades.length; i++) {
+            if (quantities[i] > 0) {
+                cargo.push({
+                    good: trades[i].trade.localGood.symbol,
+                    quantity: quantities[i],
+                    totalVolume: Mentat.calculateGoodVolume(quantities[i], trades[i].trade.localGood)
+                });
+            }
+        }
+
+        return cargo;
+    }
+
+    // Start keeping track of the remaining cargo space and credits
+    let remainingSpace: number = space;
+    let remainingBudget: number = budget;
+
+    // Loop through valid trades and fill up remaining cargo space
+    for (let i = 0; i < trades.length; i++) {
+        // Check for remaining space and stop trying to fill cargo if none left
+        if (remainingSpace <= 0) {
+            break;
+        }
+
+        let trade: ITrade = trades[i].trade;
+        let goodQuantity = Mentat.calculateGoodQuantity(remainingSpace, trade.localGood.volumePerUnit);
+
+        // Check if the required good is a available in the quantity needed and set to max
+        if (goodQuantity > trade.localGood.quantityAvailable) {
+            goodQuantity = trade.localGood.quantityAvailable
+        }
+
+        // Stop before the price moves erase the margin
+        let impactQuantity: number = Mentat.calculateImpactQuantity(trade.localGood, trade.destinationGood, model);
+        if (goodQuantity > impactQuantity) {
+            goodQuantity = impactQuantity;
+        }
+
+        // Scale the quantity down to what the remaining credits can afford
+        let affordableQuantity: number = Mentat.calculateAffordableQuantity(remainingBudget, Mentat.calculateMarginalPurchasePrice(trade.localGood, goodQuantity, model));
+        if (goodQuantity > affordableQuantity) {
+            goodQuantity = affordableQuantity;
+        }
+
+        if (goodQuantity <= 0) {
+            continue;
+        }
+
+        let goodVolume = Mentat.calculateGoodVolume(goodQuantity, trade.localGood);
+
+        cargo.push({
+            good: trade.localGood.symbol,
+            quantity: goodQuantity,
+            totalVolume: goodVolume
+        });
+
+        // Adjust remaining space and credits and if there is more space left buy next best Good for destination if exists
+        remainingSpace -= goodVolume;
+        remainingBudget -= Mentat.calculateGoodCost(trade.localGood, goodQuantity, model);
+    }
+
+    return cargo;
+}
+
+/**
+ * Plans the trip to a single destination: the sales of the goods in the hold, the FUEL and the best cargo.
+ * 
+ * If the FUEL for the trip can not be bought or carried at once, the trip is planned
+ * through refuel stops instead (see planRefuelStops).
+ * 
+ * @param locations ILocation[]
+ * @param ship IShip
+ * @param location ILocation
+ * @param destination ILocation
+ * @param path IRouteSegment[]
+ * @param trades ITradeOption[]    Trades for the destination
+ * @param holdings ICargo[]         The goods in the hold, FUEL excluded
+ * @param params INavigationParameters
+ * @param budget number
+ * @returns { route: ITradeRoute, rejection: RejectionReason }     No route if the trip can not be fueled
+ */
+function planTrip(locations: ILocation[], ship: IShip, location: ILocation, destination: ILocation, path: IRouteSegment[], trades: ITradeOption[], holdings: ICargo[], params: INavigationParameters, budget: number): { route: ITradeRoute, rejection: RejectionReason } {
+    // The goods sold before leaving make room and credits for the new cargo
+    const sales: ISale[] = planSales(holdings, location, destination, params.priceImpact);
+    const localSales: ISale[] = sales.filter((sale: ISale) => sale.location === location.symbol);
+    const kept: ICargo[] = ship.cargo.filter((c: ICargo) => !localSales.filter((sale: ISale) => sale.good === c.good).length);
+    const departing: IShip = localSales.length ? { ...ship, cargo: kept, spaceAvailable: Mentat.calculateSpaceAvailable(ship.maxCargo, kept) } : ship;
+    const tripBudget: number = Mentat.calculateTripBudget(budget, Mentat.calculateSalesRevenue(localSales));
+
+    const fuelToTravel: number = Mentat.calculatePathFuel(path);
+    let waypoints: IRouteSegment[] = path;
+    let refuelStops: IRefuelStop[] = [];
+    let fuelQuantity: number = Mentat.calculateFuelQuantity(departing, fuelToTravel, params.fuelMargin);
+    let reserveQuantity: number = Mentat.calculateReserveQuantity(departing, fuelToTravel, params.fuelReserve);
+    let fuelLoad: number = Mentat.calculateFuelQuantity(departing, fuelToTravel, params.fuelMargin, params.fuelReserve);
+    let fuelCost: number = Mentat.calculateFuelToTravelCost(fuelQuantity, getFuelUnitCost(location.marketplace, fuelLoad, params.priceImpact));
+    let reserveCost: number = Mentat.calculateFuelToTravelCost(reserveQuantity, getFuelUnitCost(location.marketplace, fuelLoad, params.priceImpact));
+
+    // Check if there is enough available fuel in market and enough space for refueling
+    let rejection: RejectionReason = checkRefuel(departing, location.marketplace, fuelLoad);
+
+    // Not all the FUEL at once. Try to refuel on the way
+    if (rejection === RejectionReason.NOT_ENOUGH_MARKET_FUEL || rejection === RejectionReason.NOT_ENOUGH_SPACE_FOR_FUEL) {
+        const refuel: IRefuelPlan = planRefuelStops(locations, departing, location, destination, params);
+
+        if (refuel) {
+            waypoints = refuel.waypoints;
+            refuelStops = refuel.stops;
+            fuelQuantity = refuel.fuelQuantity;
+            fuelLoad = refuel.fuelLoad;
+            fuelCost = refuel.fuelCost;
+            // The reserve is bought at the last stop, and listed there
+            reserveQuantity = 0;
+            reserveCost = refuel.reserveCost;
+            rejection = null;
+        }
+    }
+
+    // Check if the fuel for the trip and the reserve can be afforded
+    const goodsBudget: number = Mentat.calculateRemainingCredits(Mentat.calculateRemainingCredits(tripBudget, fuelCost), reserveCost);
+
+    if (!rejection && goodsBudget < 0) {
+        rejection = RejectionReason.CANNOT_AFFORD_FUEL;
+    }
+
+    if (rejection) {
+        return { route: null, rejection };
+    }
+
+    /**
+     * Setup the cargo list and add the fuel needed for the trip, then the reserve.
+     * This will be filled with the best cargo for trade.
+     * If there is more space left, it will take the next best cargo and so on.
+     */
+    let cargo: ICargo[] = [
+        {
+            good: "FUEL",
+            quantity: fuelQuantity,
+            totalVolume: Mentat.calculateFuelToTravelVolume(fuelQuantity, departing),
+            purpose: FuelPurpose.TRIP
+        }
+    ];
+    const reserveFuel: ICargo = {
+        good: "FUEL",
+        quantity: reserveQuantity,
+        totalVolume: Mentat.calculateFuelToTravelVolume(reserveQuantity, departing),
+        purpose: FuelPurpose.RESERVE
+    };
+
+    // Fill up the remaining cargo space with the best goods for the destination
+    const goods: ICargo[] = labelTradeFuel(loadCargo(
+        trades,
+        Mentat.calculateRemainingSpaceAfterRefuel(departing, fuelLoad),
+        goodsBudget,
+        params.greedyCargo,
+        params.priceImpact
+    ));
+
+    // The goods are bought after the FUEL for the trip and the reserve, so FUEL bought to trade is priced after them
+    const forecast: IGoodForecast[] = Mentat.calculateGoodsForecast(goods, trades.map((option: ITradeOption) => option.trade), params.priceImpact, cargo.concat([reserveFuel]));
+
+    // Cheap FUEL for later legs only takes the space and the credits the goods left
+    const stockpile: number = refuelStops.length ? 0 : planStockpile(
+        locations,
+        departing,
+        location,
+        Mentat.calculateCargoQuantity(cargo.concat([reserveFuel], goods), "FUEL"),
+        Mentat.calculateRemainingFuel(departing, fuelLoad, fuelToTravel),
+        Mentat.calculateSpaceAvailable(Mentat.calculateRemainingSpaceAfterRefuel(departing, fuelLoad), goods),
+        Mentat.calculateRemainingCredits(goodsBudget, Mentat.calculateForecastPurchaseCost(forecast)),
+        params
+    );
+    const reserve: ICargo[] = Mentat.calculateCombinedCargo(
+        [reserveFuel],
+        [{ good: "FUEL", quantity: stockpile, totalVolume: Mentat.calculateFuelToTravelVolume(stockpile, departing) }]
+    );
+    cargo = cargo.concat(reserve, goods);
+
+    // Forecast the finances of the trip
+    const purchaseCost: number = Mentat.calculateForecastPurchaseCost(forecast);
+    const expectedRevenue: number = Mentat.calculateForecastRevenue(forecast);
+    const salesRevenue: number = Mentat.calculateSalesRevenue(sales);
+    const netProfit: number = Mentat.calculateNetProfit(expectedRevenue, purchaseCost, fuelCost, salesRevenue);
+    // The FUEL bought at the refuel stops is spent on the way
+    const spend: number = Mentat.calculateRouteSpend(Mentat.calculateCargoCost(cargo, location.marketplace, params.priceImpact), Mentat.calculateRefuelCost(refuelStops));
+
+    // Finally, return the object containing the destination symbol, the cargo-to-buy for trading, the sales, the flight details and the forecast
+    const flightTime: number = Mentat.calculatePathFlightTime(ship, waypoints);
+
+    const route: ITradeRoute = {
+        destination: destination.symbol,
+        cargo,
+        sales,
+        waypoints,
+        refuelStops,
+        flightTime,
+        arrival: Mentat.calculateArrival(flightTime, getDeparture(params)),
+        spend,
+        distance: Mentat.calculatePathDistance(waypoints),
+        fuelCost,
+        goods: forecast,
+        purchaseCost,
+        expectedRevenue,
+        salesRevenue,
+        netProfit,
+        roi: Mentat.calculateReturnOnInvestment(netProfit, spend)
+    };
+
+    return { route, rejection: null };
+}
+
+/**
+ * The FUEL to stockpile when the location sells it well below the average price of its system,
+ * up to the stockpile's quantity at arrival.
+ * 
+ * @param locations ILocation[]
+ * @param ship IShip           The ship leaving the location
+ * @param location ILocation
+ * @param bought number         The FUEL already bought there: for the trip, the reserve and to trade
+ * @param arrivalFuel number    The FUEL left at arrival without the stockpile
+ * @param space number          The space left after the FUEL and the goods
+ * @param budget number         The credits left after the FUEL and the goods
+ * @param params INavigationParameters
+ * @returns number  0 without a fuelStockpile, or if the FUEL is not cheap enough
+ */
+function planStockpile(locations: ILocation[], ship: IShip, location: ILocation, bought: number, arrivalFuel: number, space: number, budget: number, params: INavigationParameters): number {
+    const fuel: IGood = (location.marketplace || []).filter((g: IGood) => g.symbol === "FUEL")[0];
+
+    if (!params.fuelStockpile || !fuel) {
+        return 0;
+    }
+
+    const system: string = getSystem(location);
+    const average: number = Mentat.calculateAverageFuelPrice(locations.filter((l: ILocation) => getSystem(l) === system));
+
+    if (!Mentat.validateFuelDiscount(fuel.purchasePricePerUnit, average, params.fuelStockpile.discount)) {
+        return 0;
+    }
+
+    return Mentat.calculateStockpileQuantity(ship, fuel, bought, params.fuelStockpile.quantity, arrivalFuel, space, budget, params.priceImpact);
+}
+
+/**
+ * Labels the FUEL bought to trade, to tell it from the FUEL for the trip and the reserve.
+ * 
+ * @param goods ICargo[]
+ * @returns ICargo[]
+ */
+function labelTradeFuel(goods: ICargo[]): ICargo[] {
+    return goods.map((c: ICargo) => c.good === "FUEL" ? { ...c, purpose: FuelPurpose.TRADE } : c);
+}
+
+// The refuel stops planned for a trip (see planRefuelStops)
+interface IRefuelPlan {
+    waypoints: IRouteSegment[];
+    stops: IRefuelStop[];
+    fuelQuantity: number;
+    fuelLoad: number;
+    fuelCost: number;
+    reserveCost: number;
+}
+
+// A chain of hops explored by planRefuelStops, with the ship as it is at its last location
+interface IRefuelChain {
+    location: ILocation;
+    ship: IShip;
+    hops: IRefuelStop[];
+    waypoints: IRouteSegment[];
+    loads: number[];
+}
+
+/**
+ * Plans the cheapest way to a destination through intermediate refuel stops,
+ * when the FUEL for the whole trip can not be bought or carried at the location.
+ * 
+ * - Stops are locations whose marketplace sells FUEL. At the location and at every stop,
+ *      the FUEL for the next hop is bought, with the fuelMargin, minus the FUEL left in the hold.
+ * 
+ * - Each hop must be refueled like a trip of its own: the stop's market must have the FUEL
+ *      and the hold the space for it (see checkRefuel).
+ * 
+ * - Among the chains of up to maxRefuelStops stops, the one with the cheapest FUEL is picked.
+ *      On the same cost, the one with fewer stops.
+ * 
+ * - The fuelReserve is bought at the last stop, as a stop of its own with the RESERVE purpose.
+ *      Its cost is kept out of the fuelCost, like the reserve bought at the location.
+ * 
+ * @param locations ILocation[]
+ * @param ship IShip           The ship leaving the location
+ * @param location ILocation
+ * @param destination ILocation
+ * @param params INavigationParameters
+ * @returns IRefuelPlan     null if the destination can not be reached through refuel stops
+ */
+function planRefuelStops(locations: ILocation[], ship: IShip, location: ILocation, destination: ILocation, params: INavigationParameters): IRefuelPlan {
+    const maxStops: number = params.maxRefuelStops ?? 2;
+    const stations: ILocation[] = locations.filter((l: ILocation) => l.symbol !== location.symbol
+        && l.symbol !== destination.symbol
+        && getFuelUnitCost(l.marketplace) !== null
+        && Mentat.validateLocation(l, params.allowedLocations));
+
+    // The FUEL on board at the location. The ship's space available already leaves it out
+    const currentFuel: number = Mentat.calculateRemainingFuel(ship, 0, 0);
+    const goods: ICargo[] = ship.cargo.filter((c: ICargo) => c.good !== "FUEL");
+
+    // Chains of hops from the location. The first hop is the FUEL bought at the location
+    let chains: IRefuelChain[] = [{ location, ship, hops: [], waypoints: [], loads: [] }];
+    let best: IRefuelChain = null;
+
+    for (let stops = 0; stops <= maxStops && chains.length; stops++) {
+        // The cheapest chain to each station, with one more stop
+        const next: { [symbol: string]: IRefuelChain } = {};
+
+        chains.forEach((chain: IRefuelChain) => {
+            const visited: string[] = [location.symbol].concat(chain.hops.map((hop: IRefuelStop) => hop.location));
+            const targets: ILocation[] = stops < maxStops ? stations.concat([destination]) : [destination];
+
+            targets.forEach((target: ILocation) => {
+                // Without stops, the direct trip could not be refueled already
+                if (visited.indexOf(target.symbol) !== -1 || (!stops && target === destination)) {
+                    return;
+                }
+
+                // The reserve is bought for the last hop
+                const path: IRouteSegment[] = plotPath(locations, chain.ship, chain.location, target);
+                const reserve: number = target === destination ? params.fuelReserve : 0;
+                const fuelQuantity: number = Mentat.calculateFuelQuantity(chain.ship, Mentat.calculatePathFuel(path), params.fuelMargin, reserve);
+
+                if (!path.length || checkRefuel(chain.ship, chain.location.marketplace, fuelQuantity)) {
+                    return;
+                }
+
+                // The FUEL for the hop and the reserve are listed apart, at the same price
+                const unitCost: number = getFuelUnitCost(chain.location.marketplace, fuelQuantity, params.priceImpact);
+                const reserveQuantity: number = Mentat.calculateReserveQuantity(chain.ship, Mentat.calculatePathFuel(path), reserve);
+                const tripQuantity: number = Mentat.calculateFuelQuantity(chain.ship, Mentat.calculatePathFuel(path), params.fuelMargin);
+                const hops: IRefuelStop[] = [{ location: chain.location.symbol, fuel: tripQuantity, cost: Mentat.calculateFuelToTravelCost(tripQuantity, unitCost), purpose: FuelPurpose.TRIP }];
+
+                if (reserveQuantity) {
+                    hops.push({ location: chain.location.symbol, fuel: reserveQuantity, cost: Mentat.calculateFuelToTravelCost(reserveQuantity, unitCost), purpose: FuelPurpose.RESERVE });
+                }
+
+                const fuelLeft: number = Mentat.calculateRemainingFuel(chain.ship, fuelQuantity, Mentat.calculatePathFuel(path));
+                // The goods in the hold are still on board at the stop
+                const cargo: ICargo[] = (fuelLeft ? [{ good: "FUEL", quantity: fuelLeft, totalVolume: Mentat.calculateFuelToTravelVolume(fuelLeft, ship) }] : []).concat(goods);
+                const candidate: IRefuelChain = {
+                    location: target,
+                    ship: { ...ship, location: target.symbol, x: target.x, y: target.y, cargo, spaceAvailable: Mentat.calculateSpaceAvailable(ship.maxCargo, cargo) },
+                    hops: chain.hops.concat(hops),
+                    waypoints: chain.waypoints.concat(path),
+                    // The FUEL on board when leaving, beyond the FUEL already on board at the location
+                    loads: chain.loads.concat([Mentat.calculateRemainingFuel(chain.ship, fuelQuantity, currentFuel)])
+                };
+                const cost: number = Mentat.calculateRefuelCost(candidate.hops);
+
+                if (target === destination) {
+                    best = !best || cost < Mentat.calculateRefuelCost(best.hops) ? candidate : best;
+                } else if (!next[target.symbol] || cost < Mentat.calculateRefuelCost(next[target.symbol].hops)) {
+                    next[target.symbol] = candidate;
+                }
+            });
+        });
+
+        chains = Object.keys(next).map((symbol: string) => next[symbol]);
+    }
+
+    if (!best) {
+        return null;
+    }
+
+    // The reserve is not part of the FUEL cost of the trip
+    const reserve: IRefuelStop[] = best.hops.filter((hop: IRefuelStop) => hop.purpose === FuelPurpose.RESERVE);
+
+    return {
+        waypoints: best.waypoints,
+        // A stop that has the FUEL for the next hop already on board buys nothing
+        stops: best.hops.slice(1).filter((hop: IRefuelStop) => hop.fuel > 0),
+        fuelQuantity: best.hops[0].fuel,
+        fuelLoad: Mentat.calculateLargestFuelLoad(best.loads),
+        fuelCost: Mentat.calculateRefuelCost(best.hops.filter((hop: IRefuelStop) => hop.purpose !== FuelPurpose.RESERVE)),
+        reserveCost: Mentat.calculateRefuelCost(reserve)
+    };
+}
+
+/**
+ * Plans where to sell each good in the hold: at the location before leaving,
+ * or at the destination, whichever pays more. Goods neither of them buy stay in the hold.
+ * 
+ * @param holdings ICargo[]
+ * @param location ILocation
+ * @param destination ILocation
+ * @param model IPriceImpactModel  Default none. Large sales are made at the average price they move the market to
+ * @returns ISale[]
+ */
+function planSales(holdings: ICargo[], location: ILocation, destination: ILocation, model: IPriceImpactModel = null): ISale[] {
+    const localGoods: { [symbol: string]: IGood } = indexBySymbol(location.marketplace || []);
+    const destinationGoods: { [symbol: string]: IGood } = indexBySymbol(destination.marketplace || []);
+    const sales: ISale[] = [];
+
+    for (let i = 0; i < holdings.length; i++) {
+        let localGood: IGood = localGoods.hasOwnProperty(holdings[i].good) ? localGoods[holdings[i].good] : null;
+        let destinationGood: IGood = destinationGoods.hasOwnProperty(holdings[i].good) ? destinationGoods[holdings[i].good] : null;
+
+        if (!localGood && !destinationGood) {
+            continue;
+        }
+
+        let atDestination: boolean = destinationGood && (!localGood || Mentat.calculateGoodProfit(destinationGood, holdings[i].quantity, model) > Mentat.calculateGoodProfit(localGood, holdings[i].quantity, model));
+
+        sales.push({
+            good: holdings[i].good,
+            quantity: holdings[i].quantity,
+            location: atDestination ? destination.symbol : location.symbol,
+            revenue: Mentat.calculateGoodProfit(atDestination ? destinationGood : localGood, holdings[i].quantity, model)
+        });
+    }
+
+    return sales;
+}
+
+/**
+ * 
+ * @param ship IShip
+ * @returns ICargo[]    The goods in the hold, FUEL excluded
+ */
+function getHoldings(ship: IShip): ICargo[] {
+    return (ship.cargo || []).filter((c: ICargo) => c.good !== "FUEL" && c.quantity > 0);
+}
+
+/**
+ * Lists the destinations that buy any of the goods in the hold,
+ * in range and on recent enough market data if specified.
+ * 
+ * With a required destination, only that destination is listed, whether it buys them or not,
+ * so the ship can fly there without any trade.
+ * 
+ * @param locations ILocation[]
+ * @param ship IShip
+ * @param location ILocation
+ * @param holdings ICargo[]
+ * @param params INavigationParameters
+ * @returns string[]    The destinations' symbols
+ */
+function getSaleDestinations(locations: ILocation[], ship: IShip, location: ILocation, holdings: ICargo[], params: INavigationParameters): string[] {
+    const held: string[] = holdings.map((c: ICargo) => c.good);
+    const excludeStale: boolean = params.maxMarketAge && params.staleMarkets !== StaleMarketPolicy.DOWN_WEIGHT;
+
+    return locations
+        .filter((destination: ILocation) => {
+            if (destination.symbol === location.symbol || !Mentat.validateLocation(destination, params.allowedLocations)) {
+                return false;
+            }
+
+            if (params.destination) {
+                if (destination.symbol !== params.destination) {
+                    return false;
+                }
+            } else if (!held.length || !destination.marketplace || !destination.marketplace.filter((good: IGood) => held.indexOf(good.symbol) !== -1).length) {
+                return false;
+            }
+
+            const path: IRouteSegment[] = plotPath(locations, ship, location, destination);
+            const dataAge: number = Mentat.calculateDataAge(Mentat.calculateOldestObservation(location.observedAt, destination.observedAt), getDeparture(params));
+
+            return path.length
+                && (!params.range || Mentat.validatePathRange(params.range, path))
+                && (!excludeStale || Mentat.validateMarketAge(params.maxMarketAge, dataAge));
+        })
+        .map((destination: ILocation) => destination.symbol);
+}
+
+/**
+ * Checks a trade against the route constraints: the allowed and denied goods, the allowed
+ * and denied destinations, the locations on the way and the required destination.
+ * 
+ * @param option ITradeOption
+ * @param locations object      The locations by symbol (see indexBySymbol)
+ * @param params INavigationParameters
+ * @returns RejectionReason     null if the trade is within the constraints
+ */
+function getConstraintRejection(option: ITradeOption, locations: { [symbol: string]: ILocation }, params: INavigationParameters): RejectionReason {
+    if (!Mentat.validateGood(option.trade.localGood.symbol, params.allowedGoods, params.deniedGoods)) {
+        return RejectionReason.DENIED_GOOD;
+    }
+
+    const destination: ILocation = option.trade.destination;
+
+    if (!Mentat.validateLocation(destination, params.allowedLocations, params.deniedLocations, params.deniedLocationTypes)) {
+        return RejectionReason.DENIED_LOCATION;
+    }
+
+    // The warp gates on the way can be denied too
+    const denied: IRouteSegment[] = option.path.filter((segment: IRouteSegment) => {
+        const waypoint: ILocation = locations[segment.to];
+        return waypoint && !Mentat.validateLocation(waypoint, undefined, params.deniedLocations, params.deniedLocationTypes);
+    });
+
+    if (denied.length) {
+        return RejectionReason.DENIED_LOCATION;
+    }
+
+    if (params.destination && destination.symbol !== params.destination) {
+        return RejectionReason.NOT_REQUIRED_DESTINATION;
+    }
+
+    return null;
+}
+
+/**
+ * The locations the ship may fly to or through: all but the denied ones.
+ * The ship's location is always kept.
+ * 
+ * @param locations ILocation[]
+ * @param location ILocation
+ * @param params INavigationParameters
+ * @returns ILocation[]
+ */
+function getOpenLocations(locations: ILocation[], location: ILocation, params: INavigationParameters): ILocation[] {
+    return locations.filter((l: ILocation) => l.symbol === location.symbol || Mentat.validateLocation(l, undefined, params.deniedLocations, params.deniedLocationTypes));
+}
+
+/**
+ * Checks if there is enough available fuel in the marketplace and enough space in the ship for refueling.
+ * 
+ * @param ship IShip
+ * @param marketplace IGood[]
+ * @param fuelQuantity number
+ * @returns RejectionReason     null if refueling is possible
+ */
+function checkRefuel(ship: IShip, marketplace: IGood[], fuelQuantity: number): RejectionReason {
+    const localFuel: IGood = marketplace.filter((g: IGood) => g.symbol === "FUEL")[0];
+
+    if (fuelQuantity > (localFuel?.quantityAvailable || 0)) {
+        return RejectionReason.NOT_ENOUGH_MARKET_FUEL;
+    }
+
+    if (Mentat.calculateFuelToTravelVolume(fuelQuantity, ship) > ship.spaceAvailable) {
+        return RejectionReason.NOT_ENOUGH_SPACE_FOR_FUEL;
+    }
+
+    return null;
+}
+
+/**
+ * Records the error's code in its diagnostics. Then throws the error in strict mode,
+ * otherwise returns a result without routes.
+ * 
+ * @param error NavigationError
+ * @param strict boolean
+ * @returns IAlternativesResult
+ */
+function fail(error: NavigationError, strict: boolean): IAlternativesResult {
+    error.diagnostics.error = error.code;
+
+    if (strict) {
+        throw error;
+    }
+
+    return { routes: [], diagnostics: error.diagnostics };
+}
+
+/**
+ * Scores the trades with the scorer and sorts them by their score.
+ * The given trades are not modified.
+ * 
+ * @param trades ITradeOption[]
+ * @param ship IShip
+ * @param scorer ITradeScorer
+ * @returns ITradeOption[]
+ */
+function scoreTradeOptions(trades: ITradeOption[], ship: IShip, scorer: ITradeScorer): ITradeOption[] {
+    return Mentat.sortByKey(trades.map((option: ITradeOption) => ({ ...option, score: scorer.score(option, ship) })), "score");
+}
+
+/**
+ * Updates the age of the trades' market data at departure, since the trades may have been listed a while ago.
+ * 
+ * If the stale markets are weighed down instead of excluded, the scores of the trades
+ * on data older than maxMarketAge are reduced and the trades are sorted again.
+ * The given trades are not modified.
+ * 
+ * @param trades ITradeOption[]
+ * @param params INavigationParameters
+ * @returns ITradeOption[]
+ */
+function ageTradeOptions(trades: ITradeOption[], params: INavigationParameters): ITradeOption[] {
+    const departure: Date = getDeparture(params);
+    const aged: ITradeOption[] = trades.map((option: ITradeOption) => ({ ...option, dataAge: Mentat.calculateDataAge(option.observedAt, departure) }));
+
+    if (!params.maxMarketAge || params.staleMarkets !== StaleMarketPolicy.DOWN_WEIGHT) {
+        return aged;
+    }
+
+    return Mentat.sortByKey(aged.map((option: ITradeOption) => ({
+        ...option,
+        score: Mentat.calculateWeightedScore(option.score, Mentat.calculateFreshnessWeight(option.dataAge, params.maxMarketAge))
+    })), "score");
+}
+
+/**
+ * 
+ * @param params INavigationParameters
+ * @returns Date    The departure of the parameters, or now
+ */
+function getDeparture(params: INavigationParameters): Date {
+    return params.departure ? new Date(params.departure) : new Date();
+}
+
+/**
+ * 
+ * @param params INavigationParameters
+ * @returns ITradeScorer   null if the parameters don't rank trades
+ */
+function getScorer(params: INavigationParameters): ITradeScorer {
+    if (params.scorer) {
+        return params.scorer;
+    }
+
+    switch (params.rankBy) {
+        case TradeRanking.PROFIT_PER_DU:
+            return ProfitPerDistanceScorer;
+
+        case TradeRanking.PROFIT_PER_SECOND:
+            return ProfitPerTimeScorer;
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Plots the path with the least FUEL from the location to the destination.
+ * 
+ * Destinations in the same system are reached directly.
+ * Destinations in other systems are reached through the warp gates of the locations list,
+ * with every jump counted by the FUEL it costs.
+ * 
+ * @param locations ILocation[]
+ * @param ship IShip
+ * @param location ILocation
+ * @param destination ILocation
+ * @returns IRouteSegment[]    Empty if the destination can not be reached
+ */
+function plotPath(locations: ILocation[], ship: IShip, location: ILocation, destination: ILocation): IRouteSegment[] {
+    const system: string = getSystem(destination);
+
+    if (getSystem(location) === system) {
+        return [getSegment(ship, location, destination)];
+    }
+
+    // Only the location, the warp gates, their far ends and the destination can be part of the path
+    const ends: string[] = locations.reduce((symbols: string[], l: ILocation) => symbols.concat((l.gates || []).map((gate: IWarpGate) => gate.destination)), []);
+    const waypoints: ILocation[] = [location, destination].concat(locations.filter((l: ILocation) => (l.gates && l.gates.length) || ends.indexOf(l.symbol) !== -1));
+    const paths: { [symbol: string]: IRouteSegment[] } = { [location.symbol]: [] };
+    const visited: string[] = [];
+
+    while (true) {
+        // Pick the closest (by FUEL) waypoint not yet visited
+        let current: ILocation;
+        for (let i = 0; i < waypoints.length; i++) {
+            let path: IRouteSegment[] = paths[waypoints[i].symbol];
+
+            if (!path || visited.indexOf(waypoints[i].symbol) !== -1) {
+                continue;
+            }
+
+            if (!current || Mentat.calculatePathFuel(path) < Mentat.calculatePathFuel(paths[current.symbol])) {
+                current = waypoints[i];
+            }
+        }
+
+        if (!current) {
+            return [];
+        }
+
+        if (current.symbol === destination.symbol) {
+            return paths[current.symbol];
+        }
+
+        visited.push(current.symbol);
+
+        let segments: IRouteSegment[] = [];
+
+        // Travel to the destination or any warp gate in the same system
+        for (let i = 0; i < waypoints.length; i++) {
+            if (waypoints[i].symbol !== current.symbol && getSystem(waypoints[i]) === getSystem(current)) {
+                segments.push(getSegment(ship, current, waypoints[i]));
+            }
+        }
+
+        // Jump through the warp gates of the waypoint
+        let gates: IWarpGate[] = current.gates || [];
+        for (let i = 0; i < gates.length; i++) {
+            if (waypoints.filter((l: ILocation) => l.symbol === gates[i].destination).length) {
+                segments.push({ from: current.symbol, to: gates[i].destination, distance: 0, fuel: Mentat.calculateJumpFuel(gates[i]) });
+            }
+        }
+
+        for (let i = 0; i < segments.length; i++) {
+            let path: IRouteSegment[] = paths[current.symbol].concat(segments[i]);
+            let known: IRouteSegment[] = paths[segments[i].to];
+
+            if (!known || Mentat.calculatePathFuel(path) < Mentat.calculatePathFuel(known)) {
+                paths[segments[i].to] = path;
+            }
+        }
+    }
+}
+
+/**
+ * Closes the loop back to its first location, then goes on to the locations after it in the list.
+ * 
+ * @param markets ILocation[]
+ * @param legs object           The legs between every pair of markets. Null if the leg can not be flown
+ * @param first number          The index of the loop's first location
+ * @param stops string[]        The locations of the loop so far
+ * @param path ITradeLoopLeg[]  The legs of the loop so far
+ * @param maxStops number
+ * @param loops ITradeLoop[]    The loops found
+ */
+function extendLoops(markets: ILocation[], legs: { [origin: string]: { [destination: string]: ITradeLoopLeg } }, first: number, stops: string[], path: ITradeLoopLeg[], maxStops: number, loops: ITradeLoop[]): void {
+    const last: string = stops[stops.length - 1];
+    const closing: ITradeLoopLeg = legs[last][stops[0]];
+
+    if (path.length && closing) {
+        const loopLegs: ITradeLoopLeg[] = path.concat(closing);
+        const profit: number = Mentat.calculateLoopProfit(loopLegs);
+        const distance: number = Mentat.calculateLoopDistance(loopLegs);
+        const flightTime: number = Mentat.calculateLoopFlightTime(loopLegs);
+
+        loops.push({
+            locations: stops,
+            legs: loopLegs,
+            profit,
+            distance,
+            flightTime,
+            profitPerDU: Mentat.calculateProfitPerDistance(profit, distance),
+            profitPerSecond: Mentat.calculateProfitPerTime(profit, flightTime)
+        });
+    }
+
+    if (stops.length >= maxStops) {
+        return;
+    }
+
+    for (let i = first; i < markets.length; i++) {
+        let leg: ITradeLoopLeg = legs[last][markets[i].symbol];
+
+        if (i !== first && leg && stops.indexOf(markets[i].symbol) === -1) {
+            extendLoops(markets, legs, first, stops.concat(markets[i].symbol), path.concat(leg), maxStops, loops);
+        }
+    }
+}
+
+/**
+ * 
+ * @param locations ILocation[]
+ * @param ship IShip
+ * @param location ILocation
+ * @param destination ILocation
+ * @param arbitrages IArbitrage[]  The goods from the location to the destination, best first
+ * @param params ITradeLoopParameters
+ * @returns ITradeLoopLeg  Null if the leg can not be fueled or flown, or has nothing to trade
+ */
+function getLoopLeg(locations: ILocation[], ship: IShip, location: ILocation, destination: ILocation, arbitrages: IArbitrage[], params: ITradeLoopParameters): ITradeLoopLeg {
+    const fuelUnitCost: number = getFuelUnitCost(location.marketplace);
+    const path: IRouteSegment[] = plotPath(locations, ship, location, destination);
+
+    if (fuelUnitCost === null || !path.length || (params.range && !Mentat.validatePathRange(params.range, path))) {
+        return null;
+    }
+
+    // The location's market must have the FUEL for the leg, and the hold the space for it
+    if (checkRefuel(ship, location.marketplace, Mentat.calculatePathFuel(path))) {
+        return null;
+    }
+
+    const localGoods: { [symbol: string]: IGood } = indexBySymbol(location.marketplace);
+    const best: IArbitrage = arbitrages.filter((arbitrage: IArbitrage) => arbitrage.profitPerVolume > 0 && localGoods[arbitrage.good].quantityAvailable > 0)[0];
+
+    if (!best) {
+        return null;
+    }
+
+    const profit: number = Mentat.calculateStockedPathProfit(indexBySymbol(destination.marketplace)[best.good], localGoods[best.good], ship, path, fuelUnitCost);
+
+    return {
+        origin: location.symbol,
+        destination: destination.symbol,
+        good: best.good,
+        waypoints: path,
+        distance: Mentat.calculatePathDistance(path),
+        flightTime: Mentat.calculatePathFlightTime(ship, path),
+        profit
+    };
+}
+
+/**
+ * 
+ * @param ship IShip
+ * @param location ILocation
+ * @param destination ILocation
+ * @returns IRouteSegment
+ */
+function getSegment(ship: IShip, location: ILocation, destination: ILocation): IRouteSegment {
+    return {
+        from: location.symbol,
+        to: destination.symbol,
+        distance: Mentat.calculateLocationDistance(location, destination),
+        fuel: Mentat.calculateFuelToTravel(ship, location, destination)
+    };
+}
+
+/**
+ * Locations without a system are assumed to be in the system of their symbol's prefix (ex. OE-PM is in OE)
+ * 
+ * @param location ILocation
+ * @returns string
+ */
+function getSystem(location: ILocation): string {
+    return location.system || location.symbol.split("-")[0];
+}
+
+/**
+ * 
+ * @param marketplace IGood[]
+ * @param quantity number           Default 0. The FUEL bought, to price it with the model
+ * @param model IPriceImpactModel   Default none. Without a model, the purchase price of a unit
+ * @returns number   null if the marketplace has no FUEL
+ */
+export function getFuelUnitCost(marketplace: IGood[], quantity: number = 0, model: IPriceImpactModel = null): number {
+    if (!marketplace) {
+        return null;
+    }
+
+    for (let i = 0; i < marketplace.length; i++) {
+        if (marketplace[i].symbol === "FUEL") {
+            return Mentat.calculateAveragePurchasePrice(marketplace[i], quantity, model);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * For a single lookup. Repeated lookups go through an index of the locations instead (see indexBySymbol).
+ * 
+ * @param locations ILocation[]
+ * @param symbol string
+ * @returns ILocation   null if the location is not in the list
+ */
+export function findLocation(locations: ILocation[], symbol: string): ILocation {
+    for (let i = 0; i < locations.length; i++) {
+        if (locations[i].symbol === symbol) {
+            return locations[i];
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Merges partial observations of a marketplace into it.
+ * The observed goods replace the goods with the same symbol, the other goods are kept.
+ * Neither list is modified.
+ * 
+ * @param marketplace IGood[]
+ * @param goods IGood[]     The observed goods
+ * @returns IGood[]
+ */
+export function mergeMarketplace(marketplace: IGood[], goods: IGood[]): IGood[] {
+    const observed: { [symbol: string]: IGood } = indexBySymbol(goods);
+    const known: { [symbol: string]: IGood } = indexBySymbol(marketplace);
+
+    return marketplace
+        .map((good: IGood) => observed.hasOwnProperty(good.symbol) ? observed[good.symbol] : good)
+        .concat(goods.filter((good: IGood) => !known.hasOwnProperty(good.symbol)));
+}
+
+/**
+ * 
+ * @param items T[]     Locations, goods or anything with a symbol
+ * @returns { [symbol: string]: T }
+ */
+export function indexBySymbol<T extends { symbol: string }>(items: T[]): { [symbol: string]: T } {
+    const index: { [symbol: string]: T } = {};
+
+    for (let i = 0; i < items.length; i++) {
+        index[items[i].symbol] = items[i];
+    }
+
+    return index;
+}
\ No newline at end of file
@@ -0,0 +1,296 @@
+import { ILocation, IShip, IGood, ICargo, ISale, IGoodForecast, ITradeScorer, IMarketSnapshot, ISimulationParameters, ISimulationLeg, ISimulationResult, IPlanResult, ITradeRoute, IPriceImpactModel } from './interfaces/index.js';
+import { NavigationErrorCode, SimulationStop } from './enums/index.js';
+import { Mentat } from './mentat.js';
+import { ProfitPerDistanceScorer } from './scorers/index.js';
+import { plan, findLocation } from './planner.js';
+
+/**
+ * This class replays the planner over a history of market snapshots, to measure its decisions offline.
+ * 
+ * Starting from the first snapshot, the ship flies leg after leg:
+ * 
+ * - At departure, the planner plots a route on the latest snapshot observed by then.
+ *      The goods planned to be sold before leaving are sold, and the cargo and the FUEL are bought.
+ * 
+ * - The FUEL of the flight is burned. It is the FUEL of every segment of the path,
+ *      as given by Mentat.calculateFuelToTravel (and the warp jumps).
+ *      The FUEL of the route's refuel stops is bought on the way, at the planned cost.
+ * 
+ * - At arrival, the cargo and the goods planned to be sold at the destination are sold
+ *      at the prices of the latest snapshot observed by then. Goods the destination
+ *      does not buy anymore stay in the hold.
+ * 
+ * - The ship and the credits are updated, and the next leg departs at the arrival.
+ * 
+ * If there is no route at some point, the ship waits for the next snapshot.
+ * The simulation stops when the history runs out, after the maximum number of legs,
+ * or when the ship can not trade on the last snapshot.
+ * 
+ * USAGE
+ *  - const oracle: Prescience = new Prescience(snapshots, ship, 10000);
+ *  - const result: ISimulationResult = oracle.simulate({ fuelMargin: 10 }); // see simulate method for arguments
+ *  - Compare result.profit between strategies, or against result.expectedProfit.
+ * 
+ * IMPORTANT
+ *  - Just like the Navigator, this class should not contain any calculations at all.
+ *      ALL calculations should be handled by the Mentat.
+ * 
+ * NOTES
+ *  - The snapshots are not changed by the ship's own trades. The available quantities
+ *      and the prices are the observed ones.
+ * 
+ * Named after the prescience of Frank Herbert's "Dune", the sight of the paths the future may take.
+ * https://dune.fandom.com/wiki/Prescience
+ * https://en.wikipedia.org/wiki/Dune_(novel)
+ */
+export class Prescience {
+    private _snapshots: IMarketSnapshot[];
+    private _ship: IShip;
+    private _credits: number;
+    private _scorer: ITradeScorer;
+
+    get snapshots(): IMarketSnapshot[] {
+        return this._snapshots;
+    }
+
+    get ship(): IShip {
+        return this._ship;
+    }
+
+    get credits(): number {
+        return this._credits;
+    }
+
+    get scorer(): ITradeScorer {
+        return this._scorer;
+    }
+
+    /**
+     * 
+     * @param snapshots IMarketSnapshot[]   The history of the markets, in any order
+     * @param ship IShip                    The ship at the start of the history
+     * @param credits number                The credits at the start of the history
+     * @param scorer ITradeScorer Default ProfitPerDistanceScorer. Ranks the trade options.
+     */
+    constructor(snapshots: IMarketSnapshot[], ship: IShip, credits: number, scorer: ITradeScorer = ProfitPerDistanceScorer) {
+        this._ship = ship;
+        this._credits = credits;
+        this._scorer = scorer;
+        this.updateSnapshotsData(snapshots);
+    }
+
+    /**
+     * 
+     * @param snapshots IMarketSnapshot[]
+     */
+    public updateSnapshotsData(snapshots: IMarketSnapshot[]): void {
+        // ISO 8601 times in UTC sort as strings
+        this._snapshots = snapshots
+            .map((snapshot: IMarketSnapshot) => ({ ...snapshot, observedAt: new Date(snapshot.observedAt).toISOString() }))
+            .sort((a: IMarketSnapshot, b: IMarketSnapshot) => a.observedAt < b.observedAt ? -1 : (a.observedAt > b.observedAt ? 1 : 0));
+    }
+
+    /**
+     * Flies the ship over the history, leg by leg.
+     * 
+     * PARAMETERS
+     *  - legs: Number. Default none
+     *      The maximum number of legs. Without it, the ship flies until the history runs out.
+     * 
+     *  - range, fuelMargin, rankBy, scorer, reserve, greedyCargo, maxMarketAge, staleMarkets, priceImpact, maxRefuelStops,
+     *      fuelReserve, fuelStockpile and the constraints work exactly as in plan(), on every leg.
+     *      The credits are the simulated ones, and the departure is the simulated time.
+     *      With a priceImpact model, the goods are also sold at arrival at the average prices they move the market to.
+     * 
+     * The snapshots and the ship given to prescience are not modified.
+     * 
+     * @param params ISimulationParameters
+     * @returns ISimulationResult   The legs flown, the ship and the credits at the end, and the cumulative profit
+     */
+    public simulate(params: ISimulationParameters = { range: 0, fuelMargin: 5 }): ISimulationResult {
+        const legs: ISimulationLeg[] = [];
+        let ship: IShip = this._ship;
+        let credits: number = this._credits;
+        let stop: SimulationStop = SimulationStop.END_OF_HISTORY;
+        let error: NavigationErrorCode = null;
+        let time: string = this._snapshots.length ? this._snapshots[0].observedAt : null;
+
+        while (time && this.getSnapshot(time)) {
+            if (params.legs !== undefined && legs.length >= params.legs) {
+                stop = SimulationStop.MAX_LEGS;
+                break;
+            }
+
+            const locations: ILocation[] = this.getLocations(time);
+            const result: IPlanResult = plan({ locations, ship, scorer: this._scorer }, { ...params, credits, departure: time }, false);
+
+            // No trade for now. Wait for the markets to change
+            if (!result.route) {
+                error = result.diagnostics.error;
+                time = this.getNextObservation(time);
+                stop = time ? stop : SimulationStop.NO_ROUTE;
+                continue;
+            }
+
+            error = null;
+            const arrival: ILocation[] = this.getLocations(result.route.arrival);
+            const leg: ISimulationLeg = this.fly(ship, credits, time, result.route, arrival, params);
+            legs.push(leg);
+
+            ship = this.land(ship, result.route, arrival, params);
+            credits = leg.credits;
+            time = result.route.arrival;
+        }
+
+        return {
+            legs,
+            ship,
+            startingCredits: this._credits,
+            credits,
+            profit: Mentat.calculateSimulationProfit(legs),
+            expectedProfit: Mentat.calculateFleetProfit(legs.map((leg: ISimulationLeg) => leg.route)),
+            stop,
+            error
+        };
+    }
+
+    /**
+     * Settles the purchases and the sales of a leg.
+     * 
+     * @param ship IShip            The ship at departure
+     * @param credits number        The credits at departure
+     * @param departure string
+     * @param route ITradeRoute
+     * @param locations ILocation[] The locations at arrival
+     * @param params ISimulationParameters
+     * @returns ISimulationLeg
+     */
+    private fly(ship: IShip, credits: number, departure: string, route: ITradeRoute, locations: ILocation[], params: ISimulationParameters): ISimulationLeg {
+        const destination: ILocation = findLocation(locations, route.destination);
+        const localSales: ISale[] = route.sales.filter((sale: ISale) => sale.location === ship.location);
+        const arrivalSales: ISale[] = this.sell(this.getArrivalGoods(route), destination, params.priceImpact);
+        const revenue: number = Mentat.calculateSalesRevenue(localSales.concat(arrivalSales));
+
+        return {
+            departure,
+            origin: ship.location,
+            destination: route.destination,
+            route,
+            revenue,
+            fuelBurned: Mentat.calculatePathFuel(route.waypoints),
+            profit: Mentat.calculateLegProfit(revenue, route.spend),
+            credits: Mentat.calculateBalance(credits, route.spend, revenue)
+        };
+    }
+
+    /**
+     * The ship at the destination: the FUEL left after the flight, and the goods that were not sold.
+     * 
+     * @param ship IShip            The ship at departure
+     * @param route ITradeRoute
+     * @param locations ILocation[] The locations at arrival
+     * @param params ISimulationParameters
+     * @returns IShip
+     */
+    private land(ship: IShip, route: ITradeRoute, locations: ILocation[], params: ISimulationParameters): IShip {
+        const destination: ILocation = findLocation(locations, route.destination);
+        const fuelLeft: number = Mentat.calculateRemainingFuel(ship, Mentat.calculateRouteFuel(route), Mentat.calculatePathFuel(route.waypoints));
+
+        // Goods sold at the departure and the arrival leave the hold
+        const sold: string[] = route.sales
+            .filter((sale: ISale) => sale.location === ship.location)
+            .concat(this.sell(this.getArrivalGoods(route), destination, params.priceImpact))
+            .map((sale: ISale) => sale.good);
+        const goods: ICargo[] = Mentat.calculateCombinedCargo(
+            ship.cargo.filter((c: ICargo) => c.good !== "FUEL"),
+            route.cargo.filter((c: ICargo) => c.good !== "FUEL")
+        ).filter((c: ICargo) => sold.indexOf(c.good) === -1);
+
+        const cargo: ICargo[] = (fuelLeft ? [{ good: "FUEL", quantity: fuelLeft, totalVolume: Mentat.calculateFuelToTravelVolume(fuelLeft, ship) }] : []).concat(goods);
+
+        return {
+            ...ship,
+            location: destination.symbol,
+            x: destination.x,
+            y: destination.y,
+            cargo,
+            spaceAvailable: Mentat.calculateSpaceAvailable(ship.maxCargo, cargo)
+        };
+    }
+
+    /**
+     * The goods the route planned to sell at the destination: the cargo bought for it and the goods from the hold.
+     * 
+     * @param route ITradeRoute
+     * @returns ICargo[]    Volumes are not needed to sell, and are left at 0
+     */
+    private getArrivalGoods(route: ITradeRoute): ICargo[] {
+        return route.goods
+            .map((forecast: IGoodForecast) => ({ good: forecast.good, quantity: forecast.quantity, totalVolume: 0 }))
+            .concat(route.sales
+                .filter((sale: ISale) => sale.location === route.destination)
+                .map((sale: ISale) => ({ good: sale.good, quantity: sale.quantity, totalVolume: 0 })));
+    }
+
+    /**
+     * Sells the goods at the location's prices. Goods the location does not buy are not sold.
+     * 
+     * @param goods ICargo[]
+     * @param location ILocation
+     * @param model IPriceImpactModel  Default none
+     * @returns ISale[]
+     */
+    private sell(goods: ICargo[], location: ILocation, model: IPriceImpactModel = null): ISale[] {
+        const marketplace: IGood[] = location && location.marketplace || [];
+
+        return goods
+            .map((c: ICargo) => ({ cargo: c, good: marketplace.filter((good: IGood) => good.symbol === c.good)[0] }))
+            .filter((item: { cargo: ICargo, good: IGood }) => item.good)
+            .map((item: { cargo: ICargo, good: IGood }) => ({
+                good: item.cargo.good,
+                quantity: item.cargo.quantity,
+                location: location.symbol,
+                revenue: Mentat.calculateGoodProfit(item.good, item.cargo.quantity, model)
+            }));
+    }
+
+    /**
+     * 
+     * @param time string   ISO 8601
+     * @returns IMarketSnapshot     The latest snapshot observed by then. Undefined if there is none
+     */
+    private getSnapshot(time: string): IMarketSnapshot {
+        const observed: IMarketSnapshot[] = this._snapshots.filter((snapshot: IMarketSnapshot) => snapshot.observedAt <= time);
+
+        // The history is over once the time is past its last snapshot
+        if (!observed.length || time > this._snapshots[this._snapshots.length - 1].observedAt) {
+            return undefined;
+        }
+
+        return observed[observed.length - 1];
+    }
+
+    /**
+     * The locations of the latest snapshot observed by then. Marketplaces without an observation
+     * of their own are stamped with the snapshot's.
+     * 
+     * @param time string   ISO 8601
+     * @returns ILocation[]
+     */
+    private getLocations(time: string): ILocation[] {
+        const observed: IMarketSnapshot[] = this._snapshots.filter((snapshot: IMarketSnapshot) => snapshot.observedAt <= time);
+        const snapshot: IMarketSnapshot = observed[observed.length - 1];
+
+        return snapshot.locations.map((location: ILocation) => location.marketplace && !location.observedAt ? { ...location, observedAt: snapshot.observedAt } : location);
+    }
+
+    /**
+     * 
+     * @param time string   ISO 8601
+     * @returns string      The observation of the first snapshot after the time. Null if there is none
+     */
+    private getNextObservation(time: string): string {
+        const next: IMarketSnapshot = this._snapshots.filter((snapshot: IMarketSnapshot) => snapshot.observedAt > time)[0];
+        return next ? next.observedAt : null;
+    }
+}
\ No newline at end of file
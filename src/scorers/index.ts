@@ -0,0 +1,41 @@
+import { ITradeScorer, ITradeOption, IPriceVolatility } from '../interfaces/index.js';
+import { Mentat } from '../mentat.js';
+
+export const ProfitScorer: ITradeScorer = {
+    name: "profit",
+    score: (option: ITradeOption): number => option.profit,
+};
+
+export const ProfitPerDistanceScorer: ITradeScorer = {
+    name: "profitPerDistance",
+    score: (option: ITradeOption): number => option.profitPerDU,
+};
+
+export const ProfitPerTimeScorer: ITradeScorer = {
+    name: "profitPerTime",
+    score: (option: ITradeOption): number => option.profitPerSecond,
+};
+
+export const ReturnOnInvestmentScorer: ITradeScorer = {
+    name: "returnOnInvestment",
+    score: (option: ITradeOption): number => Mentat.calculateReturnOnInvestment(option.profit, option.cost),
+};
+
+/**
+ * Ranks trades by their risk-adjusted profit per distance unit (see Mentat.calculateRiskAdjustedProfit),
+ * so a thin margin on a swinging good ranks below the same margin on a stable one.
+ * Goods without a volatility are scored as certain.
+ * 
+ * @param volatility IPriceVolatility   See Mentat.calculatePriceVolatility
+ * @param riskPenalty number            Default 1. The share of the sale's value lost per unit of volatility
+ * @returns ITradeScorer
+ */
+export function createRiskAdjustedScorer(volatility: IPriceVolatility, riskPenalty: number = 1): ITradeScorer {
+    return {
+        name: "riskAdjusted",
+        score: (option: ITradeOption): number => Mentat.calculateProfitPerDistance(
+            Mentat.calculateRiskAdjustedProfit(option, volatility[option.trade.destinationGood.symbol] || 0, riskPenalty),
+            option.distance
+        ),
+    };
+}
\ No newline at end of file
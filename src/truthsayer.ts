@@ -0,0 +1,382 @@
+import { ILocation, IShip, IGood, ICargo, IWarpGate, INavigationSnapshot, IValidationIssue } from './interfaces/index.js';
+import { Mentat } from './mentat.js';
+import { ValidationError } from './errors/index.js';
+
+/**
+ * Turns raw SpaceTraders API payloads into the locations and the ship the navigator works with.
+ * 
+ * The navigator and the planning functions trust their inputs. The Truthsayer checks them first:
+ *  - Required fields must be there and of the right type. Numbers may also be numeric strings.
+ *  - Fields the library doesn't use (ex. allowsConstruction) are dropped.
+ *  - Optional fields get their defaults (ex. an empty cargo, or the space available from the cargo).
+ *  - Payloads wrapped by the API ({ locations: [...] }, { ship: {...} }) are unwrapped.
+ * 
+ * Invalid payloads throw a ValidationError that lists every issue with the path of the field
+ * (ex. `locations[2].marketplace[0].sellPricePerUnit: expected a number, got "abc"`).
+ * 
+ * USAGE
+ *  - const locations: ILocation[] = Truthsayer.parseLocations(json);
+ *  - const ship: IShip = Truthsayer.parseShip(json);
+ *  - const snapshot: INavigationSnapshot = Truthsayer.parseSnapshot(locationsJson, shipJson); // also checks the ship's location is known
+ * 
+ * Named after the Truthsayers from Frank Herbert's "Dune", who can tell truth from lies.
+ * https://dune.fandom.com/wiki/Truthsayer
+ * https://en.wikipedia.org/wiki/Dune_(novel)
+ */
+export class Truthsayer {
+    /**
+     * 
+     * @param raw any   An array of locations, or the API's { locations: [...] } payload
+     * @returns ILocation[]
+     */
+    public static parseLocations(raw: any): ILocation[] {
+        const issues: IValidationIssue[] = [];
+        const locations: ILocation[] = Truthsayer.readLocations(raw, "locations", issues);
+
+        Truthsayer.assert(issues);
+        return locations;
+    }
+
+    /**
+     * 
+     * @param raw any   A ship, or the API's { ship: {...} } payload
+     * @returns IShip
+     */
+    public static parseShip(raw: any): IShip {
+        const issues: IValidationIssue[] = [];
+        const ship: IShip = Truthsayer.readShip(raw, "ship", issues);
+
+        Truthsayer.assert(issues);
+        return ship;
+    }
+
+    /**
+     * 
+     * @param raw any   A list of goods, or the API's { marketplace: [...] } or { location: { marketplace: [...] } } payload
+     * @returns IGood[]
+     */
+    public static parseMarketplace(raw: any): IGood[] {
+        const issues: IValidationIssue[] = [];
+        let payload: any = raw && raw.location && typeof raw.location === "object" ? raw.location : raw;
+        payload = Array.isArray(payload) ? { marketplace: payload } : payload;
+
+        if (!Truthsayer.isObject(payload, "marketplace", issues)) {
+            Truthsayer.assert(issues);
+        }
+
+        const marketplace: IGood[] = Truthsayer.readList(payload, "marketplace", "", issues, Truthsayer.readGood);
+
+        Truthsayer.assert(issues);
+        return marketplace;
+    }
+
+    /**
+     * Parses the locations and the ship together and checks that the ship is at one of the locations.
+     * 
+     * @param rawLocations any
+     * @param rawShip any
+     * @returns INavigationSnapshot
+     */
+    public static parseSnapshot(rawLocations: any, rawShip: any): INavigationSnapshot {
+        const issues: IValidationIssue[] = [];
+        const locations: ILocation[] = Truthsayer.readLocations(rawLocations, "locations", issues);
+        const ship: IShip = Truthsayer.readShip(rawShip, "ship", issues);
+
+        if (ship.location && !locations.filter((location: ILocation) => location.symbol === ship.location).length) {
+            issues.push({ path: "ship.location", message: `unknown location "${ship.location}"` });
+        }
+
+        Truthsayer.assert(issues);
+        return { locations, ship };
+    }
+
+    /**
+     * 
+     * @param issues IValidationIssue[]
+     */
+    private static assert(issues: IValidationIssue[]): void {
+        if (issues.length) {
+            throw new ValidationError(issues);
+        }
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns ILocation[]
+     */
+    private static readLocations(raw: any, path: string, issues: IValidationIssue[]): ILocation[] {
+        const list: any = raw && !Array.isArray(raw) && Array.isArray(raw.locations) ? raw.locations : raw;
+
+        if (!Array.isArray(list)) {
+            issues.push({ path, message: `expected a list of locations, got ${Truthsayer.describe(list)}` });
+            return [];
+        }
+
+        return list.map((location: any, i: number) => Truthsayer.readLocation(location, `${path}[${i}]`, issues));
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns ILocation
+     */
+    private static readLocation(raw: any, path: string, issues: IValidationIssue[]): ILocation {
+        if (!Truthsayer.isObject(raw, path, issues)) {
+            return null;
+        }
+
+        const location: ILocation = {
+            symbol: Truthsayer.readString(raw, "symbol", path, issues),
+            type: Truthsayer.readString(raw, "type", path, issues),
+            name: Truthsayer.readString(raw, "name", path, issues),
+            x: Truthsayer.readNumber(raw, "x", path, issues),
+            y: Truthsayer.readNumber(raw, "y", path, issues)
+        };
+
+        if (raw.system !== undefined) {
+            location.system = Truthsayer.readString(raw, "system", path, issues);
+        }
+
+        if (raw.gates !== undefined) {
+            location.gates = Truthsayer.readList(raw, "gates", path, issues, Truthsayer.readGate);
+        }
+
+        if (raw.marketplace !== undefined) {
+            location.marketplace = Truthsayer.readList(raw, "marketplace", path, issues, Truthsayer.readGood);
+        }
+
+        if (raw.observedAt !== undefined) {
+            location.observedAt = Truthsayer.readDate(raw, "observedAt", path, issues);
+        }
+
+        return location;
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns IWarpGate
+     */
+    private static readGate(raw: any, path: string, issues: IValidationIssue[]): IWarpGate {
+        if (!Truthsayer.isObject(raw, path, issues)) {
+            return null;
+        }
+
+        const gate: IWarpGate = { destination: Truthsayer.readString(raw, "destination", path, issues) };
+
+        if (raw.fuel !== undefined) {
+            gate.fuel = Truthsayer.readNumber(raw, "fuel", path, issues);
+        }
+
+        return gate;
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns IGood
+     */
+    private static readGood(raw: any, path: string, issues: IValidationIssue[]): IGood {
+        if (!Truthsayer.isObject(raw, path, issues)) {
+            return null;
+        }
+
+        return {
+            symbol: Truthsayer.readString(raw, "symbol", path, issues),
+            quantityAvailable: Truthsayer.readNumber(raw, "quantityAvailable", path, issues),
+            volumePerUnit: Truthsayer.readNumber(raw, "volumePerUnit", path, issues),
+            pricePerUnit: Truthsayer.readNumber(raw, "pricePerUnit", path, issues),
+            spread: raw.spread === undefined ? 0 : Truthsayer.readNumber(raw, "spread", path, issues),
+            purchasePricePerUnit: Truthsayer.readNumber(raw, "purchasePricePerUnit", path, issues),
+            sellPricePerUnit: Truthsayer.readNumber(raw, "sellPricePerUnit", path, issues)
+        };
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns IShip
+     */
+    private static readShip(raw: any, path: string, issues: IValidationIssue[]): IShip {
+        const ship: any = raw && typeof raw.ship === "object" && raw.ship !== null ? raw.ship : raw;
+
+        if (!Truthsayer.isObject(ship, path, issues)) {
+            return {} as IShip;
+        }
+
+        if (ship.location === undefined || ship.location === null) {
+            issues.push({ path: `${path}.location`, message: "is required, the ship may be in transit" });
+        }
+
+        const cargo: ICargo[] = ship.cargo === undefined ? [] : Truthsayer.readList(ship, "cargo", path, issues, Truthsayer.readCargo);
+        const maxCargo: number = Truthsayer.readNumber(ship, "maxCargo", path, issues);
+
+        return {
+            id: Truthsayer.readString(ship, "id", path, issues),
+            location: ship.location === undefined || ship.location === null ? undefined : Truthsayer.readString(ship, "location", path, issues),
+            x: Truthsayer.readNumber(ship, "x", path, issues),
+            y: Truthsayer.readNumber(ship, "y", path, issues),
+            cargo,
+            spaceAvailable: ship.spaceAvailable === undefined ? Mentat.calculateSpaceAvailable(maxCargo, cargo.filter((c: ICargo) => c)) : Truthsayer.readNumber(ship, "spaceAvailable", path, issues),
+            type: Truthsayer.readString(ship, "type", path, issues),
+            class: ship.class === undefined ? null : Truthsayer.readString(ship, "class", path, issues),
+            maxCargo,
+            speed: ship.speed === undefined ? null : Truthsayer.readNumber(ship, "speed", path, issues),
+            manufacturer: ship.manufacturer === undefined ? null : Truthsayer.readString(ship, "manufacturer", path, issues),
+            plating: ship.plating === undefined ? null : Truthsayer.readNumber(ship, "plating", path, issues),
+            weapons: ship.weapons === undefined ? null : Truthsayer.readNumber(ship, "weapons", path, issues)
+        };
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns ICargo
+     */
+    private static readCargo(raw: any, path: string, issues: IValidationIssue[]): ICargo {
+        if (!Truthsayer.isObject(raw, path, issues)) {
+            return null;
+        }
+
+        return {
+            good: Truthsayer.readString(raw, "good", path, issues),
+            quantity: Truthsayer.readNumber(raw, "quantity", path, issues),
+            totalVolume: Truthsayer.readNumber(raw, "totalVolume", path, issues)
+        };
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param key string
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @param read function     Reads a single item of the list
+     * @returns T[]
+     */
+    private static readList<T>(raw: any, key: string, path: string, issues: IValidationIssue[], read: (item: any, path: string, issues: IValidationIssue[]) => T): T[] {
+        const list: any = raw[key];
+
+        if (!Array.isArray(list)) {
+            issues.push({ path: Truthsayer.join(path, key), message: `expected a list, got ${Truthsayer.describe(list)}` });
+            return [];
+        }
+
+        return list.map((item: any, i: number) => read(item, `${Truthsayer.join(path, key)}[${i}]`, issues));
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param key string
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns string
+     */
+    private static readString(raw: any, key: string, path: string, issues: IValidationIssue[]): string {
+        const value: any = raw[key];
+
+        if (typeof value !== "string" || !value.length) {
+            issues.push({ path: Truthsayer.join(path, key), message: value === undefined ? "is required" : `expected a string, got ${Truthsayer.describe(value)}` });
+            return undefined;
+        }
+
+        return value;
+    }
+
+    /**
+     * Numeric strings are turned into numbers.
+     * 
+     * @param raw any
+     * @param key string
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns number
+     */
+    private static readNumber(raw: any, key: string, path: string, issues: IValidationIssue[]): number {
+        const value: any = raw[key];
+        const number: number = typeof value === "string" && value.trim().length ? Number(value) : value;
+
+        if (typeof number !== "number" || !isFinite(number)) {
+            issues.push({ path: Truthsayer.join(path, key), message: value === undefined ? "is required" : `expected a number, got ${Truthsayer.describe(value)}` });
+            return undefined;
+        }
+
+        return number;
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param key string
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns string  ISO 8601 date
+     */
+    private static readDate(raw: any, key: string, path: string, issues: IValidationIssue[]): string {
+        const value: any = raw[key];
+
+        if (typeof value !== "string" || isNaN(new Date(value).getTime())) {
+            issues.push({ path: Truthsayer.join(path, key), message: `expected an ISO 8601 date, got ${Truthsayer.describe(value)}` });
+            return undefined;
+        }
+
+        return new Date(value).toISOString();
+    }
+
+    /**
+     * 
+     * @param raw any
+     * @param path string
+     * @param issues IValidationIssue[]
+     * @returns boolean
+     */
+    private static isObject(raw: any, path: string, issues: IValidationIssue[]): boolean {
+        if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+            issues.push({ path, message: `expected an object, got ${Truthsayer.describe(raw)}` });
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * 
+     * @param path string
+     * @param key string
+     * @returns string  The path of the key
+     */
+    private static join(path: string, key: string): string {
+        return path ? `${path}.${key}` : key;
+    }
+
+    /**
+     * 
+     * @param value any
+     * @returns string
+     */
+    private static describe(value: any): string {
+        if (value === undefined) {
+            return "undefined";
+        }
+
+        if (Array.isArray(value)) {
+            return "a list";
+        }
+
+        return typeof value === "object" && value !== null ? "an object" : JSON.stringify(value);
+    }
+}
\ No newline at end of file
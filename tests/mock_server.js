@@ -0,0 +1,78 @@
+import http from "http";
+import fs from "fs";
+
+/**
+ * A local stand-in for the SpaceTraders API, serving mock_data/data.json.
+ *
+ * Routes
+ *  - GET /my/ships/:shipId                 { ship }
+ *  - GET /systems/:system/locations        { locations } (without marketplaces)
+ *  - GET /locations/:symbol/marketplace    { marketplace }
+ *
+ * Every request needs a Bearer token. Any token is accepted.
+ * With rateLimit set, the first `rateLimit` requests are answered with HTTP 429.
+ *
+ * USAGE
+ *  - node ./tests/mock_server.js                          // listens on port 3000 (or PORT)
+ *  - const server = await startMockServer({ port: 0 });   // from a script, on any free port
+ */
+const data = JSON.parse(fs.readFileSync(new URL("../mock_data/data.json", import.meta.url)));
+
+export function startMockServer({ port = 3000, rateLimit = 0 } = {}) {
+    let limited = 0;
+
+    const server = http.createServer((req, res) => {
+        const send = (status, body, headers = {}) => {
+            res.writeHead(status, { "Content-Type": "application/json", ...headers });
+            res.end(JSON.stringify(body));
+        };
+
+        if (!/^Bearer .+/.test(req.headers.authorization || "")) {
+            return send(401, { error: { message: "Invalid token", code: 40101 } });
+        }
+
+        if (limited < rateLimit) {
+            limited++;
+            return send(429, { error: { message: "Too many requests", code: 42901 } }, { "Retry-After": "0" });
+        }
+
+        const path = req.url.split("?")[0].split("/").filter(p => p).map(decodeURIComponent);
+
+        // /my/ships/:shipId
+        if (path.length === 3 && path[0] === "my" && path[1] === "ships") {
+            return path[2] === data.ship.id
+                ? send(200, { ship: data.ship })
+                : send(404, { error: { message: "Ship not found", code: 404 } });
+        }
+
+        // /systems/:system/locations
+        if (path.length === 3 && path[0] === "systems" && path[2] === "locations") {
+            const locations = data.locations
+                .filter(location => location.symbol.split("-")[0] === path[1])
+                .map(({ marketplace, ...location }) => location);
+
+            return locations.length
+                ? send(200, { locations })
+                : send(404, { error: { message: "System not found", code: 404 } });
+        }
+
+        // /locations/:symbol/marketplace
+        if (path.length === 3 && path[0] === "locations" && path[2] === "marketplace") {
+            const location = data.locations.filter(location => location.symbol === path[1])[0];
+
+            return location && location.marketplace
+                ? send(200, { marketplace: location.marketplace })
+                : send(404, { error: { message: "Marketplace not found", code: 404 } });
+        }
+
+        send(404, { error: { message: "Not found", code: 404 } });
+    });
+
+    return new Promise(resolve => server.listen(port, () => resolve(server)));
+}
+
+if (process.argv[1] && new URL(import.meta.url).pathname === fs.realpathSync(process.argv[1])) {
+    startMockServer({ port: Number(process.env.PORT) || 3000 }).then(server => {
+        console.log(`Mock SpaceTraders API listening on http://localhost:${server.address().port}`);
+    });
+}
\ No newline at end of file
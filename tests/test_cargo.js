@@ -0,0 +1,69 @@
+import assert from "assert";
+import { Mentat } from "../dist/index.js";
+
+/**
+ * Checks the cargo picked by Mentat.calculateOptimalCargo against the limits it has to respect,
+ * and against the greedy pick on a case where the two differ.
+ */
+const good = (symbol, price, volume, quantityAvailable = 100) => ({
+    symbol,
+    quantityAvailable,
+    volumePerUnit: volume,
+    pricePerUnit: price,
+    spread: 0,
+    purchasePricePerUnit: price,
+    sellPricePerUnit: price
+});
+
+const trade = (symbol, purchase, sell, volume, quantityAvailable) => ({
+    destination: { symbol: "OE-PM", type: "PLANET", x: 0, y: 0 },
+    localGood: good(symbol, purchase, volume, quantityAvailable),
+    destinationGood: good(symbol, sell, volume)
+});
+
+const total = (trades, quantities, pick) => quantities.reduce((sum, quantity, i) => sum + quantity * pick(trades[i]), 0);
+const profit = (t) => t.destinationGood.sellPricePerUnit - t.localGood.purchasePricePerUnit;
+const cost = (t) => t.localGood.purchasePricePerUnit;
+const volume = (t) => t.localGood.volumePerUnit;
+
+// The most profitable good by volume does not fill the hold. Greedy takes 1 ALPHA, the best mix 2 BETA
+{
+    const trades = [trade("ALPHA", 10, 19, 6), trade("BETA", 10, 17, 5)];
+    const greedy = [1, 0];
+    const quantities = Mentat.calculateOptimalCargo(trades, 10);
+
+    assert.deepStrictEqual(quantities, [0, 2]);
+    assert.ok(total(trades, quantities, profit) > total(trades, greedy, profit), "the best mix should beat the greedy pick");
+}
+
+// The budget is never exceeded
+{
+    const trades = [trade("ALPHA", 10, 15, 1), trade("BETA", 1, 3, 1)];
+    const quantities = Mentat.calculateOptimalCargo(trades, 10, 20);
+
+    assert.ok(total(trades, quantities, cost) <= 20, `spent ${total(trades, quantities, cost)} of 20 credits`);
+    assert.ok(total(trades, quantities, profit) > 0, "the budget should still be put to use");
+}
+
+// No good is bought past its quantity available, the space left goes to the next best one
+{
+    const trades = [trade("ALPHA", 1, 50, 1, 3), trade("BETA", 1, 2, 1)];
+    const quantities = Mentat.calculateOptimalCargo(trades, 10);
+
+    assert.deepStrictEqual(quantities, [3, 7]);
+}
+
+// The cargo fits in the space
+{
+    const trades = [trade("ALPHA", 5, 9, 3), trade("BETA", 2, 4, 2), trade("GAMMA", 1, 2, 1)];
+
+    for (const space of [0, 1, 7, 23, 45]) {
+        const quantities = Mentat.calculateOptimalCargo(trades, space, 100);
+
+        assert.ok(total(trades, quantities, volume) <= space, `loaded ${total(trades, quantities, volume)} in ${space} space`);
+        assert.ok(total(trades, quantities, cost) <= 100);
+        quantities.forEach((quantity, i) => assert.ok(quantity <= trades[i].localGood.quantityAvailable));
+    }
+}
+
+console.log("calculateOptimalCargo: all checks passed");
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { Distrans, Navigator } from "../dist/index.js";
+import { startMockServer } from "./mock_server.js";
+
+/**
+ * Fetches the mock ship, its system and the marketplaces from the local mock server and navigates from there.
+ * The first requests are rate limited, to go through the client's retries.
+ */
+const server = await startMockServer({ port: 0, rateLimit: 2 });
+
+const client = new Distrans({ baseUrl: `http://localhost:${server.address().port}`, token: "mock-token", retryDelay: 10 });
+const snapshot = await client.getSnapshot("cknu5howw992321cs6qfzy7gls", "OE");
+
+/**
+ * Named after Spacing Guild Navigator Edric from Frank Herbert's "Dune".
+ * https://dune.fandom.com/wiki/Edric
+ * https://en.wikipedia.org/wiki/Dune_(novel)
+ */
+const edric = new Navigator(snapshot.locations, snapshot.ship);
+
+// The mock server shows every marketplace, as if other ships had scouted them
+for (const location of snapshot.locations) {
+    if (location.symbol !== snapshot.ship.location) {
+        edric.updateMarketplace(location.symbol, await client.getMarketplace(location.symbol).catch(() => []));
+    }
+}
+
+const trade = edric.navigate({ fuelMargin: 10 });
+console.log(trade);
+
+server.close();
\ No newline at end of file